@@ -0,0 +1,59 @@
+// ビルド時に vite.config.ts がキャッシュするURLの一覧と版を埋め込み、dist/sw.js として書き出す。
+// アプリ本体（HTML・JS・CSS・アイコン）をキャッシュし、オフラインでも起動できるようにする。
+// AI API や同期サーバーなど他のオリジンへの通信には触れない。
+const CACHE_PREFIX = "pirido-shell-";
+const CACHE_NAME = `${CACHE_PREFIX}__CACHE_VERSION__`;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME).map((key) => caches.delete(key))),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+// 新しい版は利用者が画面の「更新」を押すまで待機させる。
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") {
+    void self.skipWaiting();
+  }
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) {
+    return;
+  }
+
+  // 画面遷移はどのURLでもキャッシュした index.html を返す。版の切り替えは Service Worker の更新で行う。
+  if (request.mode === "navigate") {
+    event.respondWith(
+      caches.match("/", { cacheName: CACHE_NAME }).then((cached) => cached ?? fetch(request)),
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request, { cacheName: CACHE_NAME }).then(
+      (cached) =>
+        cached ??
+        fetch(request).then((response) => {
+          // ファイル名にハッシュが付いた資産だけを後から足す。中身が変わらないので古くならない。
+          if (response.ok && url.pathname.startsWith("/assets/")) {
+            const copy = response.clone();
+            void caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+          }
+          return response;
+        }),
+    ),
+  );
+});
@@ -0,0 +1,156 @@
+// 端末間で TODO を同期するための小さなサーバー。受け取った操作に通し番号（seq）を付けて記録し、順に配るだけ。
+// 競合の解決はクライアントが seq の順に同じ操作を適用することで行うので、サーバーは中身を解釈しない。
+//
+//   npm run sync-server
+//
+// tsconfig.server.json で dist-server/ に書き出してから実行する。環境変数:
+//   PIRIDO_SYNC_PORT   待ち受けるポート（既定 8787）
+//   PIRIDO_SYNC_DATA   操作を追記するファイル（既定 ./pirido-sync.jsonl）
+//   PIRIDO_SYNC_TOKEN  設定するとアプリ側で同じトークンを指定した端末だけが読み書きできる
+import { appendFileSync, existsSync, readFileSync } from "node:fs";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+
+type StoredOperation = Record<string, unknown> & { id: string; seq: number };
+
+const PORT = Number(process.env.PIRIDO_SYNC_PORT ?? 8787);
+const DATA_FILE = process.env.PIRIDO_SYNC_DATA ?? "pirido-sync.jsonl";
+const TOKEN = process.env.PIRIDO_SYNC_TOKEN ?? "";
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function loadOperations(): StoredOperation[] {
+  if (!existsSync(DATA_FILE)) {
+    return [];
+  }
+  // 書き込み途中で止まった最後の行などは読み飛ばす。
+  return readFileSync(DATA_FILE, "utf8")
+    .split("\n")
+    .flatMap((line) => {
+      try {
+        return line.trim() ? [JSON.parse(line) as StoredOperation] : [];
+      } catch {
+        return [];
+      }
+    });
+}
+
+const operations = loadOperations();
+const operationIds = new Set(operations.map((operation) => operation.id));
+let lastSeq = operations.reduce((max, operation) => Math.max(max, operation.seq), 0);
+
+function isOperation(value: unknown): value is Record<string, unknown> & { id: string } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Record<string, unknown>).id === "string" &&
+    typeof (value as Record<string, unknown>).kind === "string"
+  );
+}
+
+// 同じIDの操作は一度だけ記録する。送信の途中で切れたクライアントが送り直しても重複しない。
+function appendOperations(incoming: unknown[]): number {
+  const lines: string[] = [];
+  for (const operation of incoming) {
+    if (!isOperation(operation) || operationIds.has(operation.id)) {
+      continue;
+    }
+    lastSeq += 1;
+    const stored: StoredOperation = { ...operation, seq: lastSeq };
+    operations.push(stored);
+    operationIds.add(stored.id);
+    lines.push(JSON.stringify(stored));
+  }
+  if (lines.length > 0) {
+    appendFileSync(DATA_FILE, `${lines.join("\n")}\n`);
+  }
+  return lastSeq;
+}
+
+function readBody(request: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, "body too large"));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch {
+        reject(new HttpError(400, "invalid json"));
+      }
+    });
+    request.on("error", reject);
+  });
+}
+
+function sendJson(response: ServerResponse, status: number, payload: unknown) {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(payload));
+}
+
+async function handle(request: IncomingMessage, response: ServerResponse) {
+  const url = new URL(request.url ?? "/", "http://localhost");
+  if (url.pathname !== "/operations") {
+    throw new HttpError(404, "not found");
+  }
+  if (TOKEN && request.headers.authorization !== `Bearer ${TOKEN}`) {
+    throw new HttpError(401, "unauthorized");
+  }
+
+  if (request.method === "GET") {
+    const since = Number(url.searchParams.get("since") ?? 0);
+    const start = operations.findIndex((operation) => operation.seq > since);
+    sendJson(response, 200, { operations: start < 0 ? [] : operations.slice(start), lastSeq });
+    return;
+  }
+  if (request.method === "POST") {
+    const body = await readBody(request);
+    const incoming = (body as { operations?: unknown } | null)?.operations;
+    if (!Array.isArray(incoming)) {
+      throw new HttpError(400, "operations must be an array");
+    }
+    sendJson(response, 200, { lastSeq: appendOperations(incoming) });
+    return;
+  }
+  throw new HttpError(405, "method not allowed");
+}
+
+const server = createServer((request, response) => {
+  // アプリは別のオリジン（Vite の開発サーバーや公開先）から呼ぶので CORS を許可する。
+  response.setHeader("Access-Control-Allow-Origin", "*");
+  response.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  response.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  if (request.method === "OPTIONS") {
+    response.writeHead(204);
+    response.end();
+    return;
+  }
+
+  handle(request, response).catch((error: unknown) => {
+    if (error instanceof HttpError) {
+      sendJson(response, error.status, { error: error.message });
+    } else {
+      console.error(error);
+      sendJson(response, 500, { error: "internal error" });
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`pirido sync server: http://localhost:${PORT} (${operations.length} operations in ${DATA_FILE})`);
+});
@@ -1,201 +1,1147 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { type AiProviderConfig, isAbortError, isAiProviderReady } from "./aiProviders";
+import { ArchiveView } from "./components/ArchiveView";
+import { BrainDumpPanel } from "./components/BrainDumpPanel";
+import { CommandPalette, type PaletteCommand } from "./components/CommandPalette";
+import { FocusTimerBar } from "./components/FocusTimerBar";
+import { RecoveryScreen } from "./components/RecoveryScreen";
 import { SettingsModal } from "./components/SettingsModal";
-import { TodoCard } from "./components/TodoCard";
+import { SyncStatusBadge } from "./components/SyncStatusBadge";
+import { TodayPlanner } from "./components/TodayPlanner";
+import { RankingPreview } from "./components/RankingPreview";
+import { type EditRequest, type GenerationState, TodoCard } from "./components/TodoCard";
 import { TodoInput } from "./components/TodoInput";
+import { UndoToast } from "./components/UndoToast";
+import { UnlockModal } from "./components/UnlockModal";
+import { UpdatePrompt } from "./components/UpdatePrompt";
+import { downloadTextFile } from "./download";
+import { buildFocusCsvFileName, focusSessionsToCsv, sumFocusedMs } from "./focus";
 import { useAppState } from "./hooks/useAppState";
-import { AppError, generateSubTasks, rankTodosByAi } from "./openai";
+import { useOnlineStatus } from "./hooks/useOnlineStatus";
+import { useServiceWorker } from "./hooks/useServiceWorker";
+import {
+  buildCursorTargets,
+  type CursorTarget,
+  findCursorAfterRemoval,
+  findCursorTarget,
+  getCursorTargetId,
+  stepCursor,
+} from "./keyboardNavigation";
+import { buildMarkdownFileName, parseMarkdownTasks, stateToMarkdown, todoToMarkdown } from "./markdown";
+import { AppError, generateSubTasks, rankTodosByAi, splitBrainDump } from "./openai";
+import { formatPriority, groupTodosByPriority, PRIORITY_LABELS, PRIORITY_OPTIONS } from "./priority";
+import type { QuickAddResult } from "./quickAdd";
+import { buildRankingProposal, type RankingProposal, reorderWithinSubset, selectAcceptedRanking } from "./ranking";
+import { getSiblingSubTaskIds, getSubTaskLocation, type SubTaskDestination } from "./restructure";
+import { parseSearchTerms, readSearchQueryFromUrl, searchTodo, writeSearchQueryToUrl } from "./search";
+import { collectSubTaskTreeIds, getSubTaskAncestors } from "./subTaskTree";
+import { collectTags, filterTodosByTag } from "./tags";
+import { buildExportFileName, type ExportOptions, parseImportedState, serializeStateForExport } from "./transfer";
+import { clampPlannerAvailableMinutes, type NewTodoDraft, type Priority, type Todo } from "./types";
 
-type GenerationState = {
-  loading: boolean;
-  error?: string;
+const PALETTE_LABEL_MAX_LENGTH = 24;
+
+function toPaletteLabel(text: string): string {
+  return text.length > PALETTE_LABEL_MAX_LENGTH ? `${text.slice(0, PALETTE_LABEL_MAX_LENGTH)}…` : text;
+}
+
+// 入力欄の中では、キーボード操作のショートカットを奪わない。
+function isTypingTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && Boolean(target.closest("input, textarea, select, [contenteditable='true']"));
+}
+
+// APIキーのロック解除を待っているAI操作。解除できたらそのまま実行し直す。
+type PendingAiAction =
+  | { kind: "generate"; todoId: string; parentSubTaskId?: string }
+  | { kind: "rank" }
+  | { kind: "brainDump"; text: string };
+
+// ドラッグ中のカードを落とす先。priority があれば、落としたTODOの優先度もその値にする。
+type DropTarget = {
+  key: string;
+  orderIndex: number;
+  priority?: Priority;
 };
 
 function App() {
   const {
     state,
+    isLoaded,
+    saveError,
+    syncStatus,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
+    undoNotice,
+    dismissUndoNotice,
+    loadFailure,
+    discardUnreadableState,
     orderedTodos,
+    archivedTodos,
     createTodo,
+    createTodos,
     toggleTodoCompleted,
     deleteTodo,
     updateTodoText,
+    updateTodoDueAt,
+    updateTodoTags,
+    updateTodoRecurrence,
+    toggleTodoLocked,
     updateSubTaskText,
+    updateSubTaskEstimate,
     addGeneratedSubTasks,
+    addManualSubTask,
     toggleSubTaskCompleted,
     deleteSubTask,
+    moveSubTaskTo,
+    promoteSubTaskToTodo,
+    demoteTodoToSubTask,
     updateSettings,
     clearSettings,
+    importState,
+    importMarkdownTasks,
     reorderTodos,
     moveTodoToIndex,
+    updateTodoPriority,
     toggleTodoCollapsed,
+    archiveCompletedTodos,
+    restoreArchivedTodo,
+    runningFocusSession,
+    startFocusSession,
+    stopFocusSession,
   } = useAppState();
+  const isOnline = useOnlineStatus();
+  const { isUpdateReady, applyUpdate, dismissUpdate } = useServiceWorker();
+  // オフラインの間はAIを呼ばず、ボタンを無効にして理由を出す。
+  const aiUnavailableReason = isOnline ? undefined : "オフラインのためAI機能は使えません。接続が戻ると使えるようになります。";
 
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [generationStateMap, setGenerationStateMap] = useState<Record<string, GenerationState>>({});
   const [isRankingTodos, setIsRankingTodos] = useState(false);
   const [rankTodosError, setRankTodosError] = useState<string | undefined>(undefined);
+  const [rankingProposal, setRankingProposal] = useState<RankingProposal | null>(null);
   const [draggingTodoId, setDraggingTodoId] = useState<string | null>(null);
-  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  const [draggingSubTaskId, setDraggingSubTaskId] = useState<string | null>(null);
+  const [dragOverKey, setDragOverKey] = useState<string | null>(null);
+  // 復号したAPIキーは保存せず、このタブのメモリにだけ置く。
+  const [sessionApiKey, setSessionApiKey] = useState<string | null>(null);
+  const [pendingAiAction, setPendingAiAction] = useState<PendingAiAction | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState(readSearchQueryFromUrl);
+  // キーボード操作のカーソル位置（TODOか子タスクのID）。
+  const [cursorTargetId, setCursorTargetId] = useState<string | null>(null);
+  const [editRequest, setEditRequest] = useState<EditRequest | undefined>(undefined);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  // 別のTODOの下へ移す対象。移動先の候補は、選ぶパレットを開いたときだけ作る。
+  const [moveSource, setMoveSource] = useState<{ todoId: string; subTaskId?: string } | null>(null);
+  const [view, setView] = useState<"list" | "archive">("list");
+  const [groupByPriority, setGroupByPriority] = useState(false);
+  const [brainDumpOpen, setBrainDumpOpen] = useState(false);
+  const [plannerOpen, setPlannerOpen] = useState(false);
+  const [brainDumpDrafts, setBrainDumpDrafts] = useState<NewTodoDraft[] | null>(null);
+  const [isSplittingBrainDump, setIsSplittingBrainDump] = useState(false);
+  const [brainDumpError, setBrainDumpError] = useState<string | undefined>(undefined);
+  const generationControllersRef = useRef(new Map<string, AbortController>());
+  const rankControllerRef = useRef<AbortController | null>(null);
+  const brainDumpControllerRef = useRef<AbortController | null>(null);
+  // 折りたたみを開いた直後など、まだ描画されていない入力欄へのフォーカス待ち。
+  const pendingFocusIdRef = useRef<string | null>(null);
+  const navigationKeyHandlerRef = useRef<(event: KeyboardEvent) => void>(() => {});
 
-  const getSubTasksForTodo = (todoId: string) => {
-    const todo = state.todos[todoId];
-    if (!todo) {
-      return [];
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || event.key.toLowerCase() !== "z") {
+        return;
+      }
+      // 入力欄ではブラウザ標準のテキスト取り消しを優先する。
+      if (isTypingTarget(event.target)) {
+        return;
+      }
+      event.preventDefault();
+      if (event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+    };
+  }, [undo, redo]);
+
+  useEffect(() => {
+    writeSearchQueryToUrl(searchQuery.trim());
+  }, [searchQuery]);
+
+  // キー操作の処理は毎回の描画で最新の状態を見るため、リスナーは1つだけ登録して ref 経由で呼ぶ。
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => navigationKeyHandlerRef.current(event);
+    window.addEventListener("keydown", onKeyDown);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (cursorTargetId) {
+      document.querySelector(".is-cursor")?.scrollIntoView({ block: "nearest" });
     }
+  }, [cursorTargetId]);
 
-    return todo.subTaskIds
-      .map((subTaskId) => state.subTasks[subTaskId])
-      .filter((subTask): subTask is (typeof state.subTasks)[string] => Boolean(subTask));
-  };
+  useEffect(() => {
+    const pendingFocusId = pendingFocusIdRef.current;
+    const element = pendingFocusId ? document.getElementById(pendingFocusId) : null;
+    if (element) {
+      pendingFocusIdRef.current = null;
+      element.focus();
+    }
+  });
+
+  const requireApiKeyOrOpenSettings = (
+    onMissingMessage: (message: string) => void,
+    pendingAction: PendingAiAction,
+    unlockedApiKey?: string,
+  ): AiProviderConfig | null => {
+    if (aiUnavailableReason) {
+      onMissingMessage(aiUnavailableReason);
+      return null;
+    }
+    const encryptedApiKey = state.settings.encryptedApiKey;
+    const apiKey = encryptedApiKey ? (unlockedApiKey ?? sessionApiKey) : state.settings.openaiApiKey;
+    if (encryptedApiKey && !apiKey) {
+      setPendingAiAction(pendingAction);
+      return null;
+    }
 
-  const requireApiKeyOrOpenSettings = (onMissingMessage: (message: string) => void): string | null => {
-    const apiKey = state.settings.openaiApiKey.trim();
-    if (apiKey) {
-      return apiKey;
+    const provider: AiProviderConfig = {
+      kind: state.settings.providerKind,
+      apiKey: apiKey ?? "",
+      model: state.settings.model,
+      baseUrl: state.settings.baseUrl,
+      timeoutMs: state.settings.requestTimeoutSeconds * 1000,
+    };
+    if (isAiProviderReady(provider)) {
+      return provider;
     }
-    onMissingMessage("APIキーが未設定です。設定からOpenAI APIキーを保存してください。");
+    onMissingMessage("APIキーが未設定です。設定からAPIキーを保存するか、ベースURLを指定してください。");
     setSettingsOpen(true);
     return null;
   };
 
-  const startGenerate = async (todoId: string) => {
+  // parentSubTaskId を渡すとその子タスクをさらに分解する。生成状態は分解対象のIDごとに持つ。
+  const startGenerate = async (todoId: string, parentSubTaskId?: string, unlockedApiKey?: string) => {
     const todo = state.todos[todoId];
-    if (!todo) {
+    const parentSubTask = parentSubTaskId ? state.subTasks[parentSubTaskId] : undefined;
+    if (!todo || (parentSubTaskId && !parentSubTask)) {
       return;
     }
+    const targetId = parentSubTask?.id ?? todoId;
 
-    const apiKey = requireApiKeyOrOpenSettings((message) => {
-      setGenerationStateMap((prev) => ({
-        ...prev,
-        [todoId]: { loading: false, error: message },
-      }));
-    });
+    const provider = requireApiKeyOrOpenSettings(
+      (message) => {
+        setGenerationStateMap((prev) => ({
+          ...prev,
+          [targetId]: { loading: false, error: message },
+        }));
+      },
+      { kind: "generate", todoId, parentSubTaskId },
+      unlockedApiKey,
+    );
 
-    if (!apiKey) {
+    if (!provider) {
       return;
     }
 
+    // 同じ対象で生成をやり直したら、前のリクエストは中断して結果を捨てる。
+    generationControllersRef.current.get(targetId)?.abort();
+    const controller = new AbortController();
+    generationControllersRef.current.set(targetId, controller);
+
     setGenerationStateMap((prev) => ({
       ...prev,
-      [todoId]: { loading: true },
+      [targetId]: { loading: true },
     }));
 
     try {
-      const existingSubTaskTexts = todo.subTaskIds
+      const existingSubTaskTexts = (parentSubTask ?? todo).subTaskIds
         .map((id) => state.subTasks[id]?.text)
         .filter((text): text is string => Boolean(text));
+      const ancestorTexts = parentSubTask
+        ? [todo.text, ...getSubTaskAncestors(state.subTasks, parentSubTask.id).map((subTask) => subTask.text)]
+        : [];
 
       const generated = await generateSubTasks({
-        apiKey,
-        model: state.settings.model,
-        parentTodoText: todo.text,
+        provider,
+        parentTodoText: parentSubTask?.text ?? todo.text,
+        ancestorTexts,
         existingSubTaskTexts,
+        signal: controller.signal,
       });
 
-      addGeneratedSubTasks(todoId, generated);
+      if (controller.signal.aborted) {
+        return;
+      }
+      addGeneratedSubTasks(todoId, generated, parentSubTask?.id);
       setGenerationStateMap((prev) => ({
         ...prev,
-        [todoId]: { loading: false },
+        [targetId]: { loading: false },
       }));
     } catch (error) {
+      if (isAbortError(error)) {
+        return;
+      }
       const message =
         error instanceof AppError ? error.message : "子タスク生成に失敗しました。再試行してください。";
 
       setGenerationStateMap((prev) => ({
         ...prev,
-        [todoId]: { loading: false, error: message },
+        [targetId]: { loading: false, error: message },
       }));
+    } finally {
+      if (generationControllersRef.current.get(targetId) === controller) {
+        generationControllersRef.current.delete(targetId);
+      }
+    }
+  };
+
+  const cancelGenerate = (targetId: string) => {
+    generationControllersRef.current.get(targetId)?.abort();
+    generationControllersRef.current.delete(targetId);
+    setGenerationStateMap((prev) => ({
+      ...prev,
+      [targetId]: { loading: false },
+    }));
+  };
+
+  const abortGenerations = (targetIds: string[]) => {
+    for (const targetId of targetIds) {
+      generationControllersRef.current.get(targetId)?.abort();
+      generationControllersRef.current.delete(targetId);
     }
+    setGenerationStateMap((prev) => {
+      const next = { ...prev };
+      for (const targetId of targetIds) {
+        delete next[targetId];
+      }
+      return next;
+    });
+  };
+
+  const deleteTodoAndCancel = (todoId: string) => {
+    const todo = state.todos[todoId];
+    abortGenerations([todoId, ...(todo ? collectSubTaskTreeIds(state.subTasks, todo.subTaskIds) : [])]);
+    deleteTodo(todoId);
+  };
+
+  const deleteSubTaskAndCancel = (subTaskId: string) => {
+    abortGenerations(collectSubTaskTreeIds(state.subTasks, [subTaskId]));
+    deleteSubTask(subTaskId);
   };
 
-  const startRankTodos = async () => {
-    const activeTodos = orderedTodos.filter((todo) => !todo.completed);
-    if (activeTodos.length <= 1) {
+  // 別の親へ移すと生成中の結果の追加先が変わるので、移すものの生成は止める。
+  const moveSubTaskAndCancel = (subTaskId: string, destination: SubTaskDestination, index: number) => {
+    const subTask = state.subTasks[subTaskId];
+    if (subTask && subTask.parentId !== destination.todoId) {
+      abortGenerations(collectSubTaskTreeIds(state.subTasks, [subTaskId]));
+    }
+    moveSubTaskTo(subTaskId, destination, index);
+  };
+
+  const promoteSubTaskAndCancel = (subTaskId: string) => {
+    abortGenerations(collectSubTaskTreeIds(state.subTasks, [subTaskId]));
+    setCursorTargetId(promoteSubTaskToTodo(subTaskId));
+  };
+
+  const demoteTodoAndCancel = (todoId: string, destinationTodoId: string) => {
+    const todo = state.todos[todoId];
+    abortGenerations([todoId, ...(todo ? collectSubTaskTreeIds(state.subTasks, todo.subTaskIds) : [])]);
+    setCursorTargetId(demoteTodoToSubTask(todoId, destinationTodoId));
+  };
+
+  const allTags = collectTags(orderedTodos);
+  // 選んでいたタグのTODOが無くなったら、絞り込みを解除した扱いにする。
+  const activeTag = tagFilter && allTags.includes(tagFilter) ? tagFilter : null;
+  const searchTerms = parseSearchTerms(searchQuery);
+  const taggedTodos = filterTodosByTag(orderedTodos, activeTag);
+  const searchResults = new Map(taggedTodos.map((todo) => [todo.id, searchTodo(todo, state.subTasks, searchTerms)]));
+  const visibleTodos = taggedTodos.filter((todo) => searchResults.get(todo.id)?.matches);
+  const isFiltered = activeTag !== null || searchTerms.length > 0;
+
+  // 並び替えるのは表示中の未完了で固定していないTODOだけ。隠れているTODOや固定したTODOの位置はそのまま残す。
+  const rankableTodos = visibleTodos.filter((todo) => !todo.completed && !todo.locked);
+
+  // AIの応答を待つあいだにTODOが編集・削除されることがあるので、案は応答が届いた時点の状態から作る。
+  const rankingSourceRef = useRef({ state, visibleIds: [] as string[] });
+  useEffect(() => {
+    rankingSourceRef.current = { state, visibleIds: visibleTodos.map((todo) => todo.id) };
+  });
+
+  const startRankTodos = async (unlockedApiKey?: string) => {
+    if (rankableTodos.length <= 1) {
       return;
     }
 
-    const apiKey = requireApiKeyOrOpenSettings((message) => {
-      setRankTodosError(message);
-    });
+    const provider = requireApiKeyOrOpenSettings(
+      (message) => {
+        setRankTodosError(message);
+      },
+      { kind: "rank" },
+      unlockedApiKey,
+    );
 
-    if (!apiKey) {
+    if (!provider) {
       return;
     }
 
+    rankControllerRef.current?.abort();
+    const controller = new AbortController();
+    rankControllerRef.current = controller;
+
     setIsRankingTodos(true);
     setRankTodosError(undefined);
 
     try {
       const orderedIds = await rankTodosByAi({
-        apiKey,
-        model: state.settings.model,
-        todos: activeTodos.map((todo) => ({ id: todo.id, text: todo.text })),
+        provider,
+        todos: rankableTodos.map((todo) => ({ id: todo.id, text: todo.text, dueAt: todo.dueAt })),
+        signal: controller.signal,
       });
-      reorderTodos(orderedIds.orderedIds, orderedIds.priorities);
+      if (controller.signal.aborted) {
+        return;
+      }
+      // すぐには適用せず、現在との差分を確認してもらう。
+      const latest = rankingSourceRef.current;
+      setRankingProposal(buildRankingProposal(latest.state, latest.visibleIds, orderedIds));
     } catch (error) {
+      if (isAbortError(error)) {
+        return;
+      }
       const message =
         error instanceof AppError ? error.message : "親タスクの並び替えに失敗しました。再試行してください。";
 
       setRankTodosError(message);
     } finally {
-      setIsRankingTodos(false);
+      if (rankControllerRef.current === controller) {
+        rankControllerRef.current = null;
+        setIsRankingTodos(false);
+      }
+    }
+  };
+
+  const cancelRankTodos = () => {
+    rankControllerRef.current?.abort();
+    rankControllerRef.current = null;
+    setIsRankingTodos(false);
+  };
+
+  const applyRankingProposal = (acceptedIds: string[]) => {
+    if (!rankingProposal) {
+      return;
+    }
+    const accepted = selectAcceptedRanking(rankingProposal, acceptedIds);
+    reorderTodos(reorderWithinSubset(state.todoOrder, accepted.orderedIds), accepted.priorities);
+    setRankingProposal(null);
+  };
+
+  const startSplitBrainDump = async (text: string, unlockedApiKey?: string) => {
+    if (!text.trim()) {
+      return;
+    }
+
+    const provider = requireApiKeyOrOpenSettings(
+      (message) => {
+        setBrainDumpError(message);
+      },
+      { kind: "brainDump", text },
+      unlockedApiKey,
+    );
+
+    if (!provider) {
+      return;
+    }
+
+    brainDumpControllerRef.current?.abort();
+    const controller = new AbortController();
+    brainDumpControllerRef.current = controller;
+
+    setIsSplittingBrainDump(true);
+    setBrainDumpError(undefined);
+
+    try {
+      const todos = await splitBrainDump({ provider, text, signal: controller.signal });
+      if (controller.signal.aborted) {
+        return;
+      }
+      // 絞り込み中に追加したTODOが一覧から消えないよう、選択中のタグを付けておく。
+      setBrainDumpDrafts(todos.map((todo) => ({ ...todo, tags: activeTag ? [activeTag] : [] })));
+    } catch (error) {
+      if (isAbortError(error)) {
+        return;
+      }
+      const message = error instanceof AppError ? error.message : "メモの分割に失敗しました。再試行してください。";
+
+      setBrainDumpError(message);
+    } finally {
+      if (brainDumpControllerRef.current === controller) {
+        brainDumpControllerRef.current = null;
+        setIsSplittingBrainDump(false);
+      }
+    }
+  };
+
+  const cancelSplitBrainDump = () => {
+    brainDumpControllerRef.current?.abort();
+    brainDumpControllerRef.current = null;
+    setIsSplittingBrainDump(false);
+  };
+
+  const closeBrainDump = () => {
+    cancelSplitBrainDump();
+    setBrainDumpOpen(false);
+    setBrainDumpDrafts(null);
+    setBrainDumpError(undefined);
+  };
+
+  const commitBrainDump = (drafts: NewTodoDraft[]) => {
+    createTodos(drafts);
+    closeBrainDump();
+  };
+
+  const onApiKeyUnlocked = (apiKey: string) => {
+    const action = pendingAiAction;
+    setSessionApiKey(apiKey);
+    setPendingAiAction(null);
+    if (action?.kind === "generate") {
+      void startGenerate(action.todoId, action.parentSubTaskId, apiKey);
+    } else if (action?.kind === "rank") {
+      void startRankTodos(apiKey);
+    } else if (action?.kind === "brainDump") {
+      void startSplitBrainDump(action.text, apiKey);
+    }
+  };
+
+  // 子タスクが検索に一致したカードは、折りたたんでいても開いて見せる。
+  const isTodoCardCollapsed = (todoId: string) =>
+    state.collapsedTodoIds.includes(todoId) && (searchResults.get(todoId)?.matchedSubTaskIds.length ?? 0) === 0;
+
+  // 優先度別表示では見出し順に並べ直したものが画面上の順になる。カーソル移動もこの順に従う。
+  const prioritySections = groupByPriority ? groupTodosByPriority(visibleTodos) : null;
+  const displayedTodos = prioritySections ? prioritySections.flatMap((section) => section.todos) : visibleTodos;
+  const completedTodoCount = orderedTodos.filter((todo) => todo.completed).length;
+
+  const cursorTargets = buildCursorTargets(displayedTodos, state.subTasks, isTodoCardCollapsed);
+  // 削除や絞り込みで見えなくなったカーソルは無いものとして扱う。
+  const cursor = findCursorTarget(cursorTargets, cursorTargetId);
+
+  const focusElement = (elementId: string) => {
+    const element = document.getElementById(elementId);
+    if (element) {
+      element.focus();
+    } else {
+      pendingFocusIdRef.current = elementId;
     }
   };
 
-  const todoCards = orderedTodos.map((todo) => ({
-    todo,
-    subTasks: getSubTasksForTodo(todo.id),
-    generationState: generationStateMap[todo.id] ?? { loading: false },
-  }));
-  const activeTodoCount = orderedTodos.filter((todo) => !todo.completed).length;
+  // 折りたたまれていれば開いてから、カード内の入力欄にフォーカスする。
+  const focusCardField = (todoId: string, elementId: string) => {
+    if (isTodoCardCollapsed(todoId)) {
+      toggleTodoCollapsed(todoId);
+    }
+    setCursorTargetId(todoId);
+    focusElement(elementId);
+  };
+
+  const requestEdit = (target: CursorTarget) => {
+    setEditRequest((prev) => ({ targetId: getCursorTargetId(target), requestId: (prev?.requestId ?? 0) + 1 }));
+  };
+
+  const toggleTargetCompleted = (target: CursorTarget) => {
+    if (target.subTaskId) {
+      toggleSubTaskCompleted(target.subTaskId);
+    } else {
+      toggleTodoCompleted(target.todoId);
+    }
+  };
+
+  const deleteTarget = (target: CursorTarget) => {
+    const removedIds = target.subTaskId
+      ? collectSubTaskTreeIds(state.subTasks, [target.subTaskId])
+      : [target.todoId, ...collectSubTaskTreeIds(state.subTasks, state.todos[target.todoId]?.subTaskIds ?? [])];
+    const nextCursor = findCursorAfterRemoval(cursorTargets, target, removedIds);
+    setCursorTargetId(nextCursor ? getCursorTargetId(nextCursor) : null);
+    if (target.subTaskId) {
+      deleteSubTaskAndCancel(target.subTaskId);
+    } else {
+      deleteTodoAndCancel(target.todoId);
+    }
+  };
+
+  const toggleTargetCollapsed = (target: CursorTarget) => {
+    toggleTodoCollapsed(target.todoId);
+    setCursorTargetId(target.todoId);
+  };
+
+  // 表示中の一覧で隣のTODOと入れ替わるように、todoOrder 全体での位置を求めて移動する。
+  // 優先度別表示で隣が別の見出しなら、その見出しの端へ入り、優先度もそちらに合わせる。
+  const moveTodoByStep = (todoId: string, delta: 1 | -1) => {
+    const index = displayedTodos.findIndex((todo) => todo.id === todoId);
+    const todo = displayedTodos[index];
+    const neighbor = displayedTodos[index + delta];
+    if (!todo || !neighbor) {
+      return;
+    }
+    const neighborIndex = state.todoOrder.indexOf(neighbor.id);
+    if (groupByPriority && neighbor.priority !== todo.priority) {
+      moveTodoToIndex(todoId, delta > 0 ? neighborIndex : neighborIndex + 1, neighbor.priority);
+      return;
+    }
+    moveTodoToIndex(todoId, delta > 0 ? neighborIndex + 1 : neighborIndex);
+  };
+
+  // 子タスクは同じ親の下で隣と入れ替える。端まで来たらそれ以上は動かさない。
+  const moveSubTaskByStep = (subTaskId: string, delta: 1 | -1) => {
+    const subTask = state.subTasks[subTaskId];
+    const location = subTask ? getSubTaskLocation(subTask) : undefined;
+    const siblings = location ? getSiblingSubTaskIds(state, location) : undefined;
+    const index = siblings?.indexOf(subTaskId) ?? -1;
+    if (!location || !siblings || index < 0 || !siblings[index + delta]) {
+      return;
+    }
+    moveSubTaskTo(subTaskId, location, delta > 0 ? index + 2 : index - 1);
+  };
+
+  const moveTargetByStep = (target: CursorTarget, delta: 1 | -1) => {
+    if (target.subTaskId) {
+      moveSubTaskByStep(target.subTaskId, delta);
+    } else {
+      moveTodoByStep(target.todoId, delta);
+    }
+  };
+
+  const clearFilters = () => {
+    setTagFilter(null);
+    setSearchQuery("");
+  };
+
+  const exportData = (options: ExportOptions) =>
+    downloadTextFile(buildExportFileName(), serializeStateForExport(state, options));
+
+  const exportMarkdown = () => downloadTextFile(buildMarkdownFileName(), stateToMarkdown(state), "text/markdown");
+
+  const exportFocusCsv = () => downloadTextFile(buildFocusCsvFileName(), focusSessionsToCsv(state), "text/csv");
+
+  const focusedMsByTargetId = sumFocusedMs(state.focusSessions, "targetId");
+  const focusedMsByTodoId = sumFocusedMs(state.focusSessions, "todoId");
+
+  const copyTodoMarkdown = async (todoId: string) => {
+    const todo = state.todos[todoId];
+    if (todo) {
+      await navigator.clipboard.writeText(todoToMarkdown(todo, state.subTasks));
+    }
+  };
+
+  const handleNavigationKey = (event: KeyboardEvent) => {
+    if ((event.ctrlKey || event.metaKey) && !event.altKey && event.key.toLowerCase() === "k") {
+      event.preventDefault();
+      setMoveSource(null);
+      setPaletteOpen((open) => !open);
+      return;
+    }
+    if (
+      event.ctrlKey ||
+      event.metaKey ||
+      event.altKey ||
+      paletteOpen ||
+      moveSource ||
+      settingsOpen ||
+      rankingProposal ||
+      view === "archive" ||
+      pendingAiAction ||
+      isTypingTarget(event.target)
+    ) {
+      return;
+    }
+    // ボタンにフォーカスがあるときの Enter・Space はボタンの操作に任せる。
+    if ((event.key === "Enter" || event.key === " ") && event.target instanceof HTMLButtonElement) {
+      return;
+    }
+
+    const handled = (() => {
+      switch (event.key) {
+        case "j":
+        case "ArrowDown": {
+          const next = stepCursor(cursorTargets, cursor, 1);
+          setCursorTargetId(next ? getCursorTargetId(next) : null);
+          return true;
+        }
+        case "k":
+        case "ArrowUp": {
+          const next = stepCursor(cursorTargets, cursor, -1);
+          setCursorTargetId(next ? getCursorTargetId(next) : null);
+          return true;
+        }
+        case "n":
+          focusElement("new-todo");
+          return true;
+        case "/":
+          focusElement("todo-search");
+          return true;
+        case "Escape":
+          setCursorTargetId(null);
+          return true;
+      }
+      if (!cursor) {
+        return false;
+      }
+      switch (event.key) {
+        case "x":
+        case " ":
+          toggleTargetCompleted(cursor);
+          return true;
+        case "e":
+        case "Enter":
+          requestEdit(cursor);
+          return true;
+        case "o":
+          toggleTargetCollapsed(cursor);
+          return true;
+        case "d":
+        case "Delete":
+          deleteTarget(cursor);
+          return true;
+        case "J":
+          moveTargetByStep(cursor, 1);
+          return true;
+        case "K":
+          moveTargetByStep(cursor, -1);
+          return true;
+        case "g":
+          void startGenerate(cursor.todoId, cursor.subTaskId);
+          return true;
+        case "a":
+          focusCardField(cursor.todoId, `todo-new-subtask-${cursor.todoId}`);
+          return true;
+        case "l":
+          toggleTodoLocked(cursor.todoId);
+          return true;
+        case "0":
+        case "1":
+        case "2":
+        case "3":
+        case "4":
+        case "5":
+          updateTodoPriority(cursor.todoId, Number(event.key) as Priority);
+          return true;
+      }
+      return false;
+    })();
+
+    if (handled) {
+      event.preventDefault();
+    }
+  };
+
+  useEffect(() => {
+    navigationKeyHandlerRef.current = handleNavigationKey;
+  });
+
+  // 移動先の候補はTODOの本文で絞り込む。子タスクは移動先の末尾に、TODOは配下ごと子タスクにする。
+  const buildMoveTargetCommands = (source: { todoId: string; subTaskId?: string }): PaletteCommand[] =>
+    orderedTodos
+      .filter((todo) => todo.id !== source.todoId)
+      .map((todo) => ({
+        id: `move-to-${todo.id}`,
+        label: todo.text,
+        run: () => {
+          if (source.subTaskId) {
+            moveSubTaskAndCancel(source.subTaskId, { todoId: todo.id }, todo.subTaskIds.length);
+          } else {
+            demoteTodoAndCancel(source.todoId, todo.id);
+          }
+        },
+      }));
+
+  const buildPaletteCommands = (): PaletteCommand[] => {
+    const commands: PaletteCommand[] = [
+      { id: "new-todo", label: "新しいTODOを追加", shortcut: "N", run: () => focusElement("new-todo") },
+      { id: "search", label: "検索", shortcut: "/", run: () => focusElement("todo-search") },
+      {
+        id: "brain-dump",
+        label: "メモからまとめて入力",
+        run: () => {
+          setView("list");
+          setBrainDumpOpen(true);
+          focusElement("brain-dump-text");
+        },
+      },
+      {
+        id: "today-plan",
+        label: plannerOpen ? "今日の計画を閉じる" : "今日の計画を開く",
+        run: () => {
+          setView("list");
+          setPlannerOpen(!plannerOpen);
+        },
+      },
+      {
+        id: "rank",
+        label: "AI優先順位",
+        disabled: isRankingTodos || rankableTodos.length <= 1 || !isOnline,
+        run: () => void startRankTodos(),
+      },
+      { id: "undo", label: "元に戻す", shortcut: "Ctrl+Z", disabled: !canUndo, run: undo },
+      { id: "redo", label: "やり直す", shortcut: "Ctrl+Shift+Z", disabled: !canRedo, run: redo },
+      { id: "clear-filters", label: "絞り込みを解除", disabled: !isFiltered, run: clearFilters },
+      {
+        id: "toggle-group-by-priority",
+        label: groupByPriority ? "並び順で表示" : "優先度別に表示",
+        run: () => setGroupByPriority(!groupByPriority),
+      },
+      ...allTags.map((tag) => ({
+        id: `tag-${tag}`,
+        label: `タグ「#${tag}」で絞り込む`,
+        disabled: activeTag === tag,
+        run: () => setTagFilter(tag),
+      })),
+    ];
 
-  const onAddTodo = (text: string) => {
-    const todoId = createTodo(text);
+    const cursorTodo = cursor ? state.todos[cursor.todoId] : undefined;
+    const cursorSubTask = cursor?.subTaskId ? state.subTasks[cursor.subTaskId] : undefined;
+    if (cursor && cursorTodo) {
+      const targetLabel = `「${toPaletteLabel((cursorSubTask ?? cursorTodo).text)}」`;
+      const todoLabel = `「${toPaletteLabel(cursorTodo.text)}」`;
+      commands.push(
+        {
+          id: "toggle-completed",
+          label: `${targetLabel}の完了を切り替える`,
+          shortcut: "X",
+          run: () => toggleTargetCompleted(cursor),
+        },
+        { id: "edit", label: `${targetLabel}を編集`, shortcut: "E", run: () => requestEdit(cursor) },
+        {
+          id: "generate",
+          label: cursorSubTask ? `${targetLabel}をAIで分解` : `${targetLabel}の子タスクを生成`,
+          shortcut: "G",
+          disabled: !isOnline,
+          run: () => void startGenerate(cursor.todoId, cursor.subTaskId),
+        },
+        {
+          id: "start-focus",
+          label: `${targetLabel}で集中タイマーを始める`,
+          disabled: runningFocusSession?.targetId === getCursorTargetId(cursor),
+          run: () => startFocusSession(getCursorTargetId(cursor)),
+        },
+        { id: "delete", label: `${targetLabel}を削除`, shortcut: "D", run: () => deleteTarget(cursor) },
+        {
+          id: "add-sub-task",
+          label: `${todoLabel}に子タスクを追加`,
+          shortcut: "A",
+          run: () => focusCardField(cursor.todoId, `todo-new-subtask-${cursor.todoId}`),
+        },
+        {
+          id: "toggle-collapsed",
+          label: isTodoCardCollapsed(cursor.todoId) ? `${todoLabel}を開く` : `${todoLabel}を折りたたむ`,
+          shortcut: "O",
+          run: () => toggleTargetCollapsed(cursor),
+        },
+        { id: "move-up", label: `${targetLabel}を上へ移動`, shortcut: "Shift+K", run: () => moveTargetByStep(cursor, -1) },
+        { id: "move-down", label: `${targetLabel}を下へ移動`, shortcut: "Shift+J", run: () => moveTargetByStep(cursor, 1) },
+        {
+          id: "toggle-locked",
+          label: cursorTodo.locked ? `${todoLabel}の固定を解除` : `${todoLabel}をAI優先順位で動かさないよう固定`,
+          shortcut: "L",
+          run: () => toggleTodoLocked(cursor.todoId),
+        },
+        ...PRIORITY_OPTIONS.map((priority) => ({
+          id: `set-priority-${priority}`,
+          label:
+            priority === 0
+              ? `${todoLabel}の優先度を未設定に戻す`
+              : `${todoLabel}の優先度を${formatPriority(priority)}（${PRIORITY_LABELS[priority]}）にする`,
+          shortcut: String(priority),
+          disabled: cursorTodo.priority === priority,
+          run: () => updateTodoPriority(cursor.todoId, priority),
+        })),
+        {
+          id: "set-due",
+          label: `${todoLabel}の期限を設定`,
+          run: () => focusCardField(cursor.todoId, `todo-due-${cursor.todoId}`),
+        },
+        {
+          id: "clear-due",
+          label: `${todoLabel}の期限をクリア`,
+          disabled: !cursorTodo.dueAt,
+          run: () => updateTodoDueAt(cursor.todoId, undefined),
+        },
+        {
+          id: "copy-markdown",
+          label: `${todoLabel}をMarkdownでコピー`,
+          run: () => void copyTodoMarkdown(cursor.todoId).catch(() => undefined),
+        },
+        {
+          id: "add-tag",
+          label: `${todoLabel}にタグを追加`,
+          run: () => focusCardField(cursor.todoId, `todo-tag-${cursor.todoId}`),
+        },
+      );
+
+      const canMove = orderedTodos.some((todo) => todo.id !== cursor.todoId);
+      if (cursor.subTaskId) {
+        const subTaskId = cursor.subTaskId;
+        commands.push(
+          { id: "promote-sub-task", label: `${targetLabel}をTODOにする`, run: () => promoteSubTaskAndCancel(subTaskId) },
+          {
+            id: "move-sub-task",
+            label: `${targetLabel}をほかのTODOの子タスクへ移動…`,
+            disabled: !canMove,
+            run: () => setMoveSource({ todoId: cursor.todoId, subTaskId }),
+          },
+        );
+      } else {
+        commands.push({
+          id: "demote-todo",
+          label: `${targetLabel}をほかのTODOの子タスクにする…`,
+          disabled: !canMove,
+          run: () => setMoveSource({ todoId: cursor.todoId }),
+        });
+      }
+    }
+
+    commands.push(
+      {
+        id: "archive-completed",
+        label: "完了済みをアーカイブ",
+        disabled: completedTodoCount === 0,
+        run: archiveCompletedTodos,
+      },
+      {
+        id: "toggle-archive-view",
+        label: view === "archive" ? "一覧に戻る" : "アーカイブを開く",
+        run: () => setView(view === "archive" ? "list" : "archive"),
+      },
+      { id: "settings", label: "設定を開く", run: () => setSettingsOpen(true) },
+      { id: "import", label: "データを読み込む（設定を開く）", run: () => setSettingsOpen(true) },
+      {
+        id: "export",
+        label: "データを書き出す（APIキー・同期トークンなし）",
+        run: () => exportData({ includeApiKey: false, includeSyncToken: false }),
+      },
+      { id: "export-markdown", label: "Markdownで書き出す", run: exportMarkdown },
+      { id: "export-focus-csv", label: "集中の記録をCSVで書き出す", run: exportFocusCsv },
+      { id: "stop-focus", label: "集中タイマーを止める", disabled: !runningFocusSession, run: stopFocusSession },
+      { id: "lock-api-key", label: "APIキーをロック", disabled: !sessionApiKey, run: () => setSessionApiKey(null) },
+      {
+        id: "clear-api-key",
+        label: "APIキーを削除",
+        disabled: !state.settings.openaiApiKey && !state.settings.encryptedApiKey,
+        run: () => {
+          clearSettings();
+          setSessionApiKey(null);
+        },
+      },
+    );
+    return commands;
+  };
+
+  const onAddTodo = ({ text, priority, dueAt, tags = [] }: QuickAddResult) => {
+    // 絞り込み中に追加したTODOが一覧から消えないよう、選択中のタグも付けておく。
+    const todoId = createTodo(text, { priority, dueAt, tags: activeTag ? [activeTag, ...tags] : tags });
     void startGenerate(todoId);
   };
 
   const onTodoDragStart = (todoId: string) => {
     setDraggingTodoId(todoId);
-    setDragOverIndex(null);
+    setDragOverKey(null);
+  };
+
+  const onSubTaskDragStart = (subTaskId: string) => {
+    setDraggingSubTaskId(subTaskId);
+    setDragOverKey(null);
+  };
+
+  const onSubTaskDragOver = (dropTargetId: string) => {
+    if (dragOverKey !== dropTargetId) {
+      setDragOverKey(dropTargetId);
+    }
   };
 
   const clearDragState = () => {
     setDraggingTodoId(null);
-    setDragOverIndex(null);
+    setDraggingSubTaskId(null);
+    setDragOverKey(null);
   };
 
-  const onTodoDropToIndex = (index: number) => {
-    if (!draggingTodoId) {
-      return;
-    }
-    moveTodoToIndex(draggingTodoId, index);
+  // todos[index] の手前（index が末尾なら最後の後ろ）へのドロップ先。表示中の位置を todoOrder 全体での位置に直す。
+  // 優先度別表示では見出しの優先度も持たせ、別の見出しへ落としたら優先度を書き換える。
+  const getDropTarget = (todos: Todo[], index: number, sectionPriority?: Priority): DropTarget => {
+    const targetTodo = todos[index];
+    const lastTodo = todos[todos.length - 1];
+    // 空の見出しへ落としたときは、todoOrder 上の位置は変えずに優先度だけ変える。
+    const orderIndex = targetTodo
+      ? state.todoOrder.indexOf(targetTodo.id)
+      : lastTodo
+        ? state.todoOrder.indexOf(lastTodo.id) + 1
+        : draggingTodoId
+          ? state.todoOrder.indexOf(draggingTodoId)
+          : state.todoOrder.length;
+    return { key: `${sectionPriority ?? "all"}-${index}`, orderIndex, priority: sectionPriority };
   };
 
-  const makeDropZoneHandlers = (index: number) => ({
+  const makeDropZoneHandlers = (target: DropTarget) => ({
     onDragOver: (event: React.DragEvent) => {
       if (!draggingTodoId) {
         return;
       }
       event.preventDefault();
       event.dataTransfer.dropEffect = "move";
-      if (dragOverIndex !== index) {
-        setDragOverIndex(index);
+      if (dragOverKey !== target.key) {
+        setDragOverKey(target.key);
       }
     },
     onDrop: (event: React.DragEvent) => {
       event.preventDefault();
-      onTodoDropToIndex(index);
+      if (draggingTodoId) {
+        moveTodoToIndex(draggingTodoId, target.orderIndex, target.priority);
+      }
       clearDragState();
     },
   });
 
+  const renderTrailingDropZone = (target: DropTarget) => (
+    <div
+      className={`todo-drop-zone ${dragOverKey === target.key ? "is-active" : ""}`}
+      {...makeDropZoneHandlers(target)}
+    />
+  );
+
+  const renderTodoCards = (todos: Todo[], sectionPriority?: Priority) => (
+    <>
+      {todos.map((todo, index) => {
+        const generationState = generationStateMap[todo.id] ?? { loading: false };
+        const dropTarget = getDropTarget(todos, index, sectionPriority);
+        const dropHandlers = makeDropZoneHandlers(dropTarget);
+        return (
+          <div key={todo.id} className="todo-dnd-block">
+            <div className={`todo-drop-zone ${dragOverKey === dropTarget.key ? "is-active" : ""}`} {...dropHandlers} />
+            <TodoCard
+              todo={todo}
+              subTasksById={state.subTasks}
+              subTaskGenerationStates={generationStateMap}
+              isCollapsed={isTodoCardCollapsed(todo.id)}
+              searchTerms={searchTerms}
+              cursorTargetId={cursor?.todoId === todo.id ? getCursorTargetId(cursor) : undefined}
+              editRequest={editRequest}
+              isGenerating={generationState.loading}
+              errorMessage={generationState.error}
+              aiUnavailableReason={aiUnavailableReason}
+              focusedMsByTargetId={focusedMsByTargetId}
+              focusedMs={focusedMsByTodoId[todo.id] ?? 0}
+              runningFocusTargetId={runningFocusSession?.todoId === todo.id ? runningFocusSession.targetId : undefined}
+              onStartFocus={startFocusSession}
+              onStopFocus={stopFocusSession}
+              onToggleTodoCompleted={toggleTodoCompleted}
+              onToggleCollapsed={toggleTodoCollapsed}
+              onDeleteTodo={deleteTodoAndCancel}
+              onRegenerateSubTasks={(todoId) => void startGenerate(todoId)}
+              onGenerateChildSubTasks={(todoId, subTaskId) => void startGenerate(todoId, subTaskId)}
+              onCancelGenerate={cancelGenerate}
+              onUpdateTodoText={updateTodoText}
+              onUpdateTodoDueAt={updateTodoDueAt}
+              onUpdateTodoTags={updateTodoTags}
+              onUpdateTodoRecurrence={updateTodoRecurrence}
+              onToggleTodoLocked={toggleTodoLocked}
+              onUpdateTodoPriority={updateTodoPriority}
+              onCopyTodoMarkdown={copyTodoMarkdown}
+              onSelectTag={setTagFilter}
+              onAddSubTask={addManualSubTask}
+              onToggleSubTaskCompleted={toggleSubTaskCompleted}
+              onDeleteSubTask={deleteSubTaskAndCancel}
+              onUpdateSubTaskText={updateSubTaskText}
+              onUpdateSubTaskEstimate={updateSubTaskEstimate}
+              onMoveSubTask={moveSubTaskAndCancel}
+              onPromoteSubTask={promoteSubTaskAndCancel}
+              canDemote={orderedTodos.length > 1}
+              onPickDemoteTarget={(todoId) => setMoveSource({ todoId })}
+              draggingSubTaskId={draggingSubTaskId ?? undefined}
+              subTaskDropTargetId={draggingSubTaskId ? (dragOverKey ?? undefined) : undefined}
+              onSubTaskDragStart={onSubTaskDragStart}
+              onSubTaskDragOver={onSubTaskDragOver}
+              onSubTaskDragEnd={clearDragState}
+              draggable
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = "move";
+                event.dataTransfer.setData("text/plain", todo.id);
+                onTodoDragStart(todo.id);
+              }}
+              onDragOver={(event) => {
+                if (draggingTodoId === todo.id) {
+                  return;
+                }
+                dropHandlers.onDragOver(event);
+              }}
+              onDrop={dropHandlers.onDrop}
+              onDragEnd={clearDragState}
+            />
+          </div>
+        );
+      })}
+      {todos.length > 0 || sectionPriority !== undefined
+        ? renderTrailingDropZone(getDropTarget(todos, todos.length, sectionPriority))
+        : null}
+    </>
+  );
+
+  if (loadFailure) {
+    return <RecoveryScreen error={loadFailure.error} raw={loadFailure.raw} onDiscard={discardUnreadableState} />;
+  }
+
+  if (!isLoaded) {
+    return (
+      <div className="app-shell">
+        <p className="empty-state">読み込み中...</p>
+      </div>
+    );
+  }
+
   return (
     <>
       <div className="app-shell">
         <header className="app-header">
           <h1>Pirido</h1>
           <div className="header-actions">
-            <button type="button" onClick={() => void startRankTodos()} disabled={isRankingTodos || activeTodoCount <= 1}>
-              {isRankingTodos ? "並び替え中..." : "AI優先順位"}
+            <SyncStatusBadge status={syncStatus} />
+            <button type="button" className="ghost" onClick={undo} disabled={!canUndo} title="元に戻す (Ctrl+Z)">
+              元に戻す
+            </button>
+            <button type="button" className="ghost" onClick={redo} disabled={!canRedo} title="やり直す (Ctrl+Shift+Z)">
+              やり直す
+            </button>
+            {isRankingTodos ? (
+              <button type="button" className="ghost" onClick={cancelRankTodos}>
+                並び替え中... キャンセル
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => void startRankTodos()}
+                disabled={rankableTodos.length <= 1 || !isOnline}
+                title={aiUnavailableReason}
+              >
+                AI優先順位
+              </button>
+            )}
+            <button type="button" className="ghost" onClick={() => setPaletteOpen(true)} title="コマンドパレット (Ctrl+K)">
+              コマンド
+            </button>
+            <button
+              type="button"
+              className={`ghost ${view === "archive" ? "is-active" : ""}`}
+              onClick={() => setView(view === "archive" ? "list" : "archive")}
+              aria-pressed={view === "archive"}
+            >
+              アーカイブ
             </button>
             <button type="button" className="ghost" onClick={() => setSettingsOpen(true)}>
               設定
@@ -203,76 +1149,220 @@ function App() {
           </div>
         </header>
 
-        {rankTodosError ? <p className="error-text">{rankTodosError}</p> : null}
+        {saveError ? (
+          <p className="error-text save-error-banner" role="alert">
+            保存に失敗しました: {saveError.message}
+          </p>
+        ) : null}
 
-        <TodoInput onAdd={onAddTodo} />
+        {runningFocusSession ? (
+          <FocusTimerBar
+            session={runningFocusSession}
+            targetText={(state.subTasks[runningFocusSession.targetId] ?? state.todos[runningFocusSession.targetId])?.text}
+            onStop={stopFocusSession}
+            onSelectTarget={() => setCursorTargetId(runningFocusSession.targetId)}
+          />
+        ) : null}
 
-        <main className="todo-list-area">
-          {todoCards.length === 0 ? <p className="empty-state">TODOを追加しましょう</p> : null}
+        {isOnline ? null : (
+          <p className="offline-banner" role="status">
+            オフラインです。変更はこの端末に保存されます。AI機能は接続が戻るまで使えません。
+          </p>
+        )}
+
+        {rankTodosError ? <p className="error-text">{rankTodosError}</p> : null}
 
-          {todoCards.map(({ todo, subTasks, generationState }, index) => (
-            <div key={todo.id} className="todo-dnd-block">
-              <div
-                className={`todo-drop-zone ${dragOverIndex === index ? "is-active" : ""}`}
-                {...makeDropZoneHandlers(index)}
+        {view === "archive" ? (
+          <ArchiveView
+            archivedTodos={archivedTodos}
+            subTasksById={state.subTasks}
+            onRestore={restoreArchivedTodo}
+            onDelete={deleteTodoAndCancel}
+            onClose={() => setView("list")}
+          />
+        ) : (
+          <>
+            <div className="capture-row">
+              <TodoInput onAdd={onAddTodo} />
+              <button
+                type="button"
+                className={`ghost ${brainDumpOpen ? "is-active" : ""}`}
+                onClick={() => (brainDumpOpen ? closeBrainDump() : setBrainDumpOpen(true))}
+                aria-pressed={brainDumpOpen}
+                title="複数行のメモをAIでTODOに分けます"
+              >
+                まとめて入力
+              </button>
+            </div>
+
+            {brainDumpOpen ? (
+              <BrainDumpPanel
+                drafts={brainDumpDrafts}
+                isSplitting={isSplittingBrainDump}
+                error={brainDumpError}
+                aiUnavailableReason={aiUnavailableReason}
+                onSplit={(text) => void startSplitBrainDump(text)}
+                onCancelSplit={cancelSplitBrainDump}
+                onChangeDrafts={setBrainDumpDrafts}
+                onCommit={commitBrainDump}
+                onClose={closeBrainDump}
               />
-              <TodoCard
-                todo={todo}
-                subTasks={subTasks}
-                isCollapsed={state.collapsedTodoIds.includes(todo.id)}
-                isGenerating={generationState.loading}
-                errorMessage={generationState.error}
-                onToggleTodoCompleted={toggleTodoCompleted}
-                onToggleCollapsed={toggleTodoCollapsed}
-                onDeleteTodo={deleteTodo}
-                onRegenerateSubTasks={(todoId) => void startGenerate(todoId)}
-                onUpdateTodoText={updateTodoText}
-                onToggleSubTaskCompleted={toggleSubTaskCompleted}
-                onDeleteSubTask={deleteSubTask}
-                onUpdateSubTaskText={updateSubTaskText}
-                draggable
-                onDragStart={(event) => {
-                  event.dataTransfer.effectAllowed = "move";
-                  event.dataTransfer.setData("text/plain", todo.id);
-                  onTodoDragStart(todo.id);
-                }}
-                onDragOver={(event) => {
-                  if (!draggingTodoId || draggingTodoId === todo.id) {
-                    return;
-                  }
-                  event.preventDefault();
-                  event.dataTransfer.dropEffect = "move";
-                  if (dragOverIndex !== index) {
-                    setDragOverIndex(index);
-                  }
-                }}
-                onDrop={(event) => {
-                  event.preventDefault();
-                  onTodoDropToIndex(index);
-                  clearDragState();
-                }}
-                onDragEnd={clearDragState}
+            ) : null}
+
+            <input
+              id="todo-search"
+              type="search"
+              className="search-input"
+              value={searchQuery}
+              onChange={(event) => setSearchQuery(event.target.value)}
+              placeholder="TODO・子タスクを検索"
+              aria-label="検索"
+            />
+
+            {allTags.length > 0 ? (
+              <nav className="tag-filter-bar" aria-label="タグで絞り込む">
+                <button
+                  type="button"
+                  className={`tag-filter ${activeTag === null ? "is-active" : ""}`}
+                  onClick={() => setTagFilter(null)}
+                  aria-pressed={activeTag === null}
+                >
+                  すべて
+                </button>
+                {allTags.map((tag) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    className={`tag-filter ${activeTag === tag ? "is-active" : ""}`}
+                    onClick={() => setTagFilter(activeTag === tag ? null : tag)}
+                    aria-pressed={activeTag === tag}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </nav>
+            ) : null}
+
+            {plannerOpen ? (
+              <TodayPlanner
+                todos={orderedTodos}
+                subTasksById={state.subTasks}
+                availableMinutes={state.settings.plannerAvailableMinutes}
+                onChangeAvailableMinutes={(minutes) =>
+                  updateSettings({ plannerAvailableMinutes: clampPlannerAvailableMinutes(minutes) })
+                }
+                onSelectTodo={setCursorTargetId}
+                onClose={() => setPlannerOpen(false)}
               />
+            ) : null}
+
+            <div className="list-toolbar">
+              <button
+                type="button"
+                className={`ghost ${plannerOpen ? "is-active" : ""}`}
+                onClick={() => setPlannerOpen(!plannerOpen)}
+                aria-pressed={plannerOpen}
+              >
+                今日の計画
+              </button>
+              <button
+                type="button"
+                className={`ghost ${groupByPriority ? "is-active" : ""}`}
+                onClick={() => setGroupByPriority(!groupByPriority)}
+                aria-pressed={groupByPriority}
+                title="見出しの間でドラッグすると優先度が変わります"
+              >
+                優先度別
+              </button>
+              {completedTodoCount > 0 ? (
+                <button type="button" className="ghost" onClick={archiveCompletedTodos}>
+                  完了済みをアーカイブ（{completedTodoCount}件）
+                </button>
+              ) : null}
             </div>
-          ))}
-          {todoCards.length > 0 ? (
-            <div
-              className={`todo-drop-zone ${dragOverIndex === todoCards.length ? "is-active" : ""}`}
-              {...makeDropZoneHandlers(todoCards.length)}
-            />
-          ) : null}
-        </main>
+
+            <main className="todo-list-area">
+              {displayedTodos.length === 0 ? (
+                <p className="empty-state">{isFiltered ? "一致するTODOはありません" : "TODOを追加しましょう"}</p>
+              ) : prioritySections
+                ? prioritySections.map((section) => (
+                    <section
+                      key={section.priority}
+                      className={`priority-section ${section.priority === 0 ? "is-unranked" : ""}`}
+                      aria-labelledby={`priority-section-${section.priority}`}
+                    >
+                      <h2 id={`priority-section-${section.priority}`} className="priority-section__title">
+                        {section.priority === 0
+                          ? PRIORITY_LABELS[0]
+                          : `${formatPriority(section.priority)} ${PRIORITY_LABELS[section.priority]}`}
+                        <span className="priority-section__count">{section.todos.length}件</span>
+                      </h2>
+                      {renderTodoCards(section.todos, section.priority)}
+                    </section>
+                  ))
+                : renderTodoCards(visibleTodos)}
+            </main>
+          </>
+        )}
       </div>
 
+      {undoNotice && canUndo ? <UndoToast notice={undoNotice} onUndo={undo} onDismiss={dismissUndoNotice} /> : null}
+
+      {isUpdateReady ? <UpdatePrompt onUpdate={applyUpdate} onDismiss={dismissUpdate} /> : null}
+
+      {rankingProposal ? (
+        <RankingPreview
+          proposal={rankingProposal}
+          todosById={state.todos}
+          onApply={applyRankingProposal}
+          onClose={() => setRankingProposal(null)}
+        />
+      ) : null}
+
+      {paletteOpen ? <CommandPalette commands={buildPaletteCommands()} onClose={() => setPaletteOpen(false)} /> : null}
+
+      {moveSource ? (
+        <CommandPalette
+          commands={buildMoveTargetCommands(moveSource)}
+          placeholder={moveSource.subTaskId ? "移動先のTODOを検索" : "親にするTODOを検索"}
+          emptyMessage="一致するTODOはありません"
+          onClose={() => setMoveSource(null)}
+        />
+      ) : null}
+
+      {pendingAiAction && state.settings.encryptedApiKey ? (
+        <UnlockModal
+          secret={state.settings.encryptedApiKey}
+          onUnlocked={onApiKeyUnlocked}
+          onOpenSettings={() => {
+            setPendingAiAction(null);
+            setSettingsOpen(true);
+          }}
+          onClose={() => setPendingAiAction(null)}
+        />
+      ) : null}
+
       {settingsOpen ? (
         <SettingsModal
           settings={state.settings}
+          isApiKeyUnlocked={Boolean(sessionApiKey)}
           onClose={() => setSettingsOpen(false)}
-          onSave={(nextSettings) => {
+          onSave={(nextSettings, unlockedApiKey) => {
             updateSettings(nextSettings);
+            // 暗号化していない設定に戻したら、メモリ上のキーも捨てる。
+            setSessionApiKey(nextSettings.encryptedApiKey ? (unlockedApiKey ?? sessionApiKey) : null);
             setSettingsOpen(false);
           }}
-          onClearApiKey={clearSettings}
+          onClearApiKey={() => {
+            clearSettings();
+            setSessionApiKey(null);
+          }}
+          onLockApiKey={() => setSessionApiKey(null)}
+          onExportData={exportData}
+          onImportData={(text, mode) => importState(parseImportedState(text), mode)}
+          onExportMarkdown={exportMarkdown}
+          onImportMarkdown={(text) => importMarkdownTasks(parseMarkdownTasks(text))}
+          onExportFocusCsv={exportFocusCsv}
         />
       ) : null}
     </>
@@ -0,0 +1,276 @@
+import type { AiProviderKind } from "./types";
+
+export type AiProviderConfig = {
+  kind: AiProviderKind;
+  apiKey: string;
+  model: string;
+  baseUrl: string;
+  timeoutMs: number;
+};
+
+export type StructuredRequest = {
+  systemPrompt: string;
+  userPrompt: string;
+  schemaName: string;
+  schema: Record<string, unknown>;
+  maxOutputTokens?: number;
+  signal?: AbortSignal;
+};
+
+export class AppError extends Error {
+  readonly code: "MISSING_API_KEY" | "OPENAI_API_ERROR" | "INVALID_JSON" | "REQUEST_ABORTED" | "REQUEST_TIMEOUT";
+
+  constructor(code: AppError["code"], message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+export const DEFAULT_BASE_URLS: Record<AiProviderKind, string> = {
+  "openai-responses": "https://api.openai.com/v1",
+  "openai-chat": "https://api.openai.com/v1",
+  anthropic: "https://api.anthropic.com/v1",
+};
+
+export const PROVIDER_LABELS: Record<AiProviderKind, string> = {
+  "openai-responses": "OpenAI (Responses API)",
+  "openai-chat": "OpenAI互換 (Chat Completions)",
+  anthropic: "Anthropic (Messages API)",
+};
+
+const DEFAULT_MAX_OUTPUT_TOKENS = 800;
+const ANTHROPIC_VERSION = "2023-06-01";
+
+function resolveBaseUrl(config: AiProviderConfig): string {
+  const baseUrl = config.baseUrl.trim() || DEFAULT_BASE_URLS[config.kind];
+  return baseUrl.replace(/\/+$/, "");
+}
+
+// 既定のエンドポイントにはキーが必須。独自のベースURL（ローカルサーバー等）はキーなしでも許可する。
+export function isAiProviderReady(config: AiProviderConfig): boolean {
+  return Boolean(config.apiKey.trim() || config.baseUrl.trim());
+}
+
+function requireApiKey(config: AiProviderConfig): string {
+  const apiKey = config.apiKey.trim();
+  if (!apiKey && !config.baseUrl.trim()) {
+    throw new AppError("MISSING_API_KEY", "APIキーが設定されていません。");
+  }
+  return apiKey;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof AppError && error.code === "REQUEST_ABORTED";
+}
+
+// 呼び出し元の中断とタイムアウトを1つのシグナルにまとめ、本文の読み取り完了まで効かせる。
+async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  options: { timeoutMs: number; signal?: AbortSignal },
+): Promise<unknown> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  const timer = window.setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, options.timeoutMs);
+
+  if (options.signal?.aborted) {
+    controller.abort();
+  } else {
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  const toAbortError = () =>
+    timedOut
+      ? new AppError("REQUEST_TIMEOUT", `AI応答がタイムアウトしました（${Math.round(options.timeoutMs / 1000)}秒）。`)
+      : new AppError("REQUEST_ABORTED", "AIリクエストをキャンセルしました。");
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...headers,
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch {
+      if (controller.signal.aborted) {
+        throw toAbortError();
+      }
+      throw new AppError("OPENAI_API_ERROR", `AI APIに接続できませんでした: ${url}`);
+    }
+
+    if (!response.ok) {
+      let detail = "";
+      try {
+        detail = await response.text();
+      } catch {
+        detail = "";
+      }
+      if (controller.signal.aborted) {
+        throw toAbortError();
+      }
+      throw new AppError("OPENAI_API_ERROR", `AI APIエラー: ${response.status}${detail ? ` ${detail}` : ""}`);
+    }
+
+    try {
+      return await response.json();
+    } catch {
+      if (controller.signal.aborted) {
+        throw toAbortError();
+      }
+      throw new AppError("INVALID_JSON", "AI APIレスポンスがJSONではありません。");
+    }
+  } finally {
+    window.clearTimeout(timer);
+    options.signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+function bearerHeaders(apiKey: string): Record<string, string> {
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
+
+function responsesOutputText(payload: unknown): string {
+  if (!isObject(payload)) {
+    throw new AppError("INVALID_JSON", "AI応答が空です。");
+  }
+
+  if (typeof payload.output_text === "string" && payload.output_text.trim()) {
+    return payload.output_text;
+  }
+
+  if (Array.isArray(payload.output)) {
+    for (const outputItem of payload.output) {
+      if (!isObject(outputItem) || !Array.isArray(outputItem.content)) {
+        continue;
+      }
+      for (const contentItem of outputItem.content) {
+        if (isObject(contentItem) && typeof contentItem.text === "string" && contentItem.text.trim()) {
+          return contentItem.text;
+        }
+      }
+    }
+  }
+
+  throw new AppError("INVALID_JSON", "AI応答のJSONを読み取れませんでした。");
+}
+
+async function callResponsesApi(config: AiProviderConfig, request: StructuredRequest): Promise<string> {
+  const payload = await postJson(
+    `${resolveBaseUrl(config)}/responses`,
+    bearerHeaders(requireApiKey(config)),
+    {
+      model: config.model.trim(),
+      input: [
+        { role: "system", content: request.systemPrompt },
+        { role: "user", content: request.userPrompt },
+      ],
+      max_output_tokens: request.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+      text: {
+        format: {
+          type: "json_schema",
+          name: request.schemaName,
+          strict: true,
+          schema: request.schema,
+        },
+      },
+    },
+    { timeoutMs: config.timeoutMs, signal: request.signal },
+  );
+  return responsesOutputText(payload);
+}
+
+async function callChatCompletionsApi(config: AiProviderConfig, request: StructuredRequest): Promise<string> {
+  const payload = await postJson(
+    `${resolveBaseUrl(config)}/chat/completions`,
+    bearerHeaders(requireApiKey(config)),
+    {
+      model: config.model.trim(),
+      messages: [
+        { role: "system", content: request.systemPrompt },
+        { role: "user", content: request.userPrompt },
+      ],
+      max_tokens: request.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: request.schemaName,
+          strict: true,
+          schema: request.schema,
+        },
+      },
+    },
+    { timeoutMs: config.timeoutMs, signal: request.signal },
+  );
+
+  const choices = isObject(payload) && Array.isArray(payload.choices) ? payload.choices : [];
+  for (const choice of choices) {
+    if (isObject(choice) && isObject(choice.message) && typeof choice.message.content === "string") {
+      if (choice.message.content.trim()) {
+        return choice.message.content;
+      }
+    }
+  }
+  throw new AppError("INVALID_JSON", "AI応答のJSONを読み取れませんでした。");
+}
+
+// Anthropicには応答形式の指定がないので、スキーマを入力に持つツールを1つだけ強制して構造化出力を得る。
+async function callAnthropicMessagesApi(config: AiProviderConfig, request: StructuredRequest): Promise<string> {
+  const apiKey = requireApiKey(config);
+  const payload = await postJson(
+    `${resolveBaseUrl(config)}/messages`,
+    {
+      ...(apiKey ? { "x-api-key": apiKey } : {}),
+      "anthropic-version": ANTHROPIC_VERSION,
+      "anthropic-dangerous-direct-browser-access": "true",
+    },
+    {
+      model: config.model.trim(),
+      system: request.systemPrompt,
+      messages: [{ role: "user", content: request.userPrompt }],
+      max_tokens: request.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+      tools: [
+        {
+          name: request.schemaName,
+          description: "結果をこのツールの入力として返してください。",
+          input_schema: request.schema,
+        },
+      ],
+      tool_choice: { type: "tool", name: request.schemaName },
+    },
+    { timeoutMs: config.timeoutMs, signal: request.signal },
+  );
+
+  const content = isObject(payload) && Array.isArray(payload.content) ? payload.content : [];
+  for (const block of content) {
+    if (isObject(block) && block.type === "tool_use" && isObject(block.input)) {
+      return JSON.stringify(block.input);
+    }
+  }
+  throw new AppError("INVALID_JSON", "AI応答のJSONを読み取れませんでした。");
+}
+
+export function requestStructuredJson(config: AiProviderConfig, request: StructuredRequest): Promise<string> {
+  switch (config.kind) {
+    case "openai-chat":
+      return callChatCompletionsApi(config, request);
+    case "anthropic":
+      return callAnthropicMessagesApi(config, request);
+    case "openai-responses":
+    default:
+      return callResponsesApi(config, request);
+  }
+}
@@ -0,0 +1,41 @@
+import type { AppState, Todo } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 一覧にある完了済みTODOのID。olderThanDays を渡すと、完了からその日数が経ったものだけに絞る。
+export function selectArchivableTodoIds(state: AppState, olderThanDays?: number, now: Date = new Date()): string[] {
+  const threshold = olderThanDays === undefined ? Number.POSITIVE_INFINITY : now.getTime() - olderThanDays * DAY_MS;
+  return state.todoOrder.filter((id) => {
+    const todo = state.todos[id];
+    if (!todo?.completed || todo.archivedAt) {
+      return false;
+    }
+    const completedTime = todo.completedAt ? Date.parse(todo.completedAt) : Number.NaN;
+    return olderThanDays === undefined || (!Number.isNaN(completedTime) && completedTime <= threshold);
+  });
+}
+
+// アーカイブしたTODOは todos に残したまま、一覧の並び順と折りたたみ状態から外す。
+export function archiveTodos(state: AppState, todoIds: string[], archivedAt: string): AppState {
+  const targets = todoIds.filter((id) => state.todos[id] && !state.todos[id].archivedAt);
+  if (targets.length === 0) {
+    return state;
+  }
+  const nextTodos = { ...state.todos };
+  for (const id of targets) {
+    nextTodos[id] = { ...nextTodos[id], archivedAt };
+  }
+  return {
+    ...state,
+    todos: nextTodos,
+    todoOrder: state.todoOrder.filter((id) => !targets.includes(id)),
+    collapsedTodoIds: state.collapsedTodoIds.filter((id) => !targets.includes(id)),
+  };
+}
+
+// 新しくアーカイブしたものから順に返す。
+export function getArchivedTodos(todos: AppState["todos"]): Todo[] {
+  return Object.values(todos)
+    .filter((todo) => Boolean(todo.archivedAt))
+    .sort((a, b) => (b.archivedAt ?? "").localeCompare(a.archivedAt ?? ""));
+}
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { formatDueAt } from "../dueDate";
+import { parseSearchTerms, searchTodo } from "../search";
+import { collectSubTaskTreeIds, getSubTaskAncestors } from "../subTaskTree";
+import type { AppState, Todo } from "../types";
+import { HighlightedText } from "./HighlightedText";
+
+type ArchiveViewProps = {
+  archivedTodos: Todo[];
+  subTasksById: AppState["subTasks"];
+  onRestore: (todoId: string) => void;
+  onDelete: (todoId: string) => void;
+  onClose: () => void;
+};
+
+export function ArchiveView({ archivedTodos, subTasksById, onRestore, onDelete, onClose }: ArchiveViewProps) {
+  const [query, setQuery] = useState("");
+  const terms = parseSearchTerms(query);
+  const visibleTodos = archivedTodos.filter((todo) => searchTodo(todo, subTasksById, terms).matches);
+
+  return (
+    <section className="archive-view" aria-labelledby="archive-title">
+      <div className="archive-view__header">
+        <h2 id="archive-title">アーカイブ（{archivedTodos.length}件）</h2>
+        <button type="button" className="ghost" onClick={onClose}>
+          一覧に戻る
+        </button>
+      </div>
+
+      <input
+        type="search"
+        className="search-input"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        placeholder="アーカイブを検索"
+        aria-label="アーカイブを検索"
+      />
+
+      {visibleTodos.length === 0 ? (
+        <p className="empty-state">
+          {archivedTodos.length === 0 ? "アーカイブしたTODOはありません" : "一致するTODOはありません"}
+        </p>
+      ) : null}
+
+      <ul className="archive-list">
+        {visibleTodos.map((todo) => {
+          const subTaskIds = collectSubTaskTreeIds(subTasksById, todo.subTaskIds);
+          return (
+            <li key={todo.id} className="archive-item">
+              <div className="archive-item__header">
+                <span className="archive-item__text">
+                  <HighlightedText text={todo.text} terms={terms} />
+                </span>
+                <div className="todo-card__actions">
+                  <button type="button" onClick={() => onRestore(todo.id)} title="未完了に戻して一覧の先頭に置きます">
+                    復元
+                  </button>
+                  <button type="button" className="danger" onClick={() => onDelete(todo.id)}>
+                    完全に削除
+                  </button>
+                </div>
+              </div>
+              <p className="archive-item__meta">
+                {todo.completedAt ? `完了 ${formatDueAt(todo.completedAt)}` : "完了日時なし"}
+                {todo.archivedAt ? ` ・アーカイブ ${formatDueAt(todo.archivedAt)}` : ""}
+                {todo.tags.length > 0 ? ` ・${todo.tags.map((tag) => `#${tag}`).join(" ")}` : ""}
+              </p>
+              {subTaskIds.length > 0 ? (
+                <ul className="archive-item__subtasks">
+                  {subTaskIds.map((subTaskId) => {
+                    const subTask = subTasksById[subTaskId];
+                    const depth = getSubTaskAncestors(subTasksById, subTaskId).length;
+                    return (
+                      <li
+                        key={subTaskId}
+                        className={subTask.completed ? "is-done" : ""}
+                        style={{ paddingLeft: `${depth * 1.1}rem` }}
+                      >
+                        <HighlightedText text={subTask.text} terms={terms} />
+                      </li>
+                    );
+                  })}
+                </ul>
+              ) : null}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { formatPriority, PRIORITY_LABELS, PRIORITY_OPTIONS } from "../priority";
+import type { NewTodoDraft, Priority } from "../types";
+
+type BrainDumpPanelProps = {
+  // AIの分割結果。null の間は貼り付け用の入力欄を出す。
+  drafts: NewTodoDraft[] | null;
+  isSplitting: boolean;
+  error?: string;
+  // AIを使えない理由（オフラインなど）。あるときは分割ボタンを無効にする。
+  aiUnavailableReason?: string;
+  onSplit: (text: string) => void;
+  onCancelSplit: () => void;
+  onChangeDrafts: (drafts: NewTodoDraft[] | null) => void;
+  onCommit: (drafts: NewTodoDraft[]) => void;
+  onClose: () => void;
+};
+
+export function BrainDumpPanel({
+  drafts,
+  isSplitting,
+  error,
+  aiUnavailableReason,
+  onSplit,
+  onCancelSplit,
+  onChangeDrafts,
+  onCommit,
+  onClose,
+}: BrainDumpPanelProps) {
+  const [text, setText] = useState("");
+
+  const updateDraft = (index: number, patch: Partial<NewTodoDraft>) => {
+    if (drafts) {
+      onChangeDrafts(drafts.map((draft, draftIndex) => (draftIndex === index ? { ...draft, ...patch } : draft)));
+    }
+  };
+
+  const removeDraft = (index: number) => {
+    if (drafts) {
+      onChangeDrafts(drafts.filter((_, draftIndex) => draftIndex !== index));
+    }
+  };
+
+  const updateSubTaskText = (index: number, subTaskIndex: number, value: string) => {
+    const draft = drafts?.[index];
+    if (draft) {
+      updateDraft(index, {
+        subTaskTexts: draft.subTaskTexts.map((subTaskText, i) => (i === subTaskIndex ? value : subTaskText)),
+      });
+    }
+  };
+
+  const removeSubTask = (index: number, subTaskIndex: number) => {
+    const draft = drafts?.[index];
+    if (draft) {
+      updateDraft(index, { subTaskTexts: draft.subTaskTexts.filter((_, i) => i !== subTaskIndex) });
+    }
+  };
+
+  const addSubTask = (index: number) => {
+    const draft = drafts?.[index];
+    if (draft) {
+      updateDraft(index, { subTaskTexts: [...draft.subTaskTexts, ""] });
+    }
+  };
+
+  const committableCount = drafts?.filter((draft) => draft.text.trim()).length ?? 0;
+
+  return (
+    <section className="brain-dump" aria-labelledby="brain-dump-title">
+      <div className="brain-dump__header">
+        <h2 id="brain-dump-title">まとめて入力</h2>
+        <button type="button" className="ghost" onClick={onClose}>
+          閉じる
+        </button>
+      </div>
+
+      {drafts === null ? (
+        <>
+          <p className="modal-note">会議のメモや箇条書きを貼り付けると、AIがTODOと子タスクに分けます。追加する前に確認・修正できます。</p>
+          <textarea
+            id="brain-dump-text"
+            value={text}
+            onChange={(event) => setText(event.target.value)}
+            rows={8}
+            placeholder="ここにメモを貼り付け"
+            aria-label="まとめて入力するメモ"
+            disabled={isSplitting}
+          />
+          <div className="brain-dump__actions">
+            {isSplitting ? (
+              <button type="button" className="ghost" onClick={onCancelSplit}>
+                分割中... キャンセル
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => onSplit(text)}
+                disabled={!text.trim() || Boolean(aiUnavailableReason)}
+                title={aiUnavailableReason}
+              >
+                AIで分割
+              </button>
+            )}
+          </div>
+        </>
+      ) : (
+        <>
+          {drafts.length === 0 ? <p className="empty-state">TODOは見つかりませんでした</p> : null}
+          <ol className="brain-dump__list">
+            {drafts.map((draft, index) => (
+              <li key={index} className="brain-dump__item">
+                <div className="brain-dump__row">
+                  <input
+                    value={draft.text}
+                    onChange={(event) => updateDraft(index, { text: event.target.value })}
+                    aria-label={`${index + 1}件目のTODO`}
+                  />
+                  <select
+                    className={`todo-priority-select ${(draft.priority ?? 0) === 0 ? "is-unranked" : ""}`}
+                    value={draft.priority ?? 0}
+                    onChange={(event) => updateDraft(index, { priority: Number(event.target.value) as Priority })}
+                    aria-label={`${index + 1}件目の優先度`}
+                  >
+                    {PRIORITY_OPTIONS.map((priority) => (
+                      <option key={priority} value={priority}>
+                        {priority === 0 ? formatPriority(priority) : `${formatPriority(priority)} ${PRIORITY_LABELS[priority]}`}
+                      </option>
+                    ))}
+                  </select>
+                  <button type="button" className="danger" onClick={() => removeDraft(index)}>
+                    外す
+                  </button>
+                </div>
+                <ul className="brain-dump__subtasks">
+                  {draft.subTaskTexts.map((subTaskText, subTaskIndex) => (
+                    <li key={subTaskIndex} className="brain-dump__row">
+                      <input
+                        value={subTaskText}
+                        onChange={(event) => updateSubTaskText(index, subTaskIndex, event.target.value)}
+                        aria-label={`${index + 1}件目の子タスク${subTaskIndex + 1}`}
+                      />
+                      <button type="button" className="ghost" onClick={() => removeSubTask(index, subTaskIndex)}>
+                        外す
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                <button type="button" className="ghost brain-dump__add-subtask" onClick={() => addSubTask(index)}>
+                  子タスクを追加
+                </button>
+              </li>
+            ))}
+          </ol>
+          <div className="brain-dump__actions">
+            <button
+              type="button"
+              onClick={() => {
+                onCommit(drafts);
+                setText("");
+              }}
+              disabled={committableCount === 0}
+            >
+              {committableCount}件を追加
+            </button>
+            <button type="button" className="ghost" onClick={() => onChangeDrafts(null)}>
+              メモに戻る
+            </button>
+          </div>
+        </>
+      )}
+
+      {error ? <p className="error-text">{error}</p> : null}
+    </section>
+  );
+}
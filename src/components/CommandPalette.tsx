@@ -0,0 +1,100 @@
+import { type KeyboardEvent, useState } from "react";
+import { findMatchRanges, parseSearchTerms } from "../search";
+
+export type PaletteCommand = {
+  id: string;
+  label: string;
+  shortcut?: string;
+  disabled?: boolean;
+  run: () => void;
+};
+
+type CommandPaletteProps = {
+  commands: PaletteCommand[];
+  // 移動先の選択など、コマンド以外の候補から選ぶときに入力欄の案内を変える。
+  placeholder?: string;
+  emptyMessage?: string;
+  onClose: () => void;
+};
+
+export function CommandPalette({
+  commands,
+  placeholder = "コマンドを検索",
+  emptyMessage = "一致するコマンドはありません",
+  onClose,
+}: CommandPaletteProps) {
+  const [query, setQuery] = useState("");
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const terms = parseSearchTerms(query);
+  // 入力した語をすべて含むコマンドだけを残す。
+  const visibleCommands = commands.filter(
+    (command) => !command.disabled && terms.every((term) => findMatchRanges(command.label, [term]).length > 0),
+  );
+  const activeIndex = Math.min(selectedIndex, Math.max(visibleCommands.length - 1, 0));
+
+  const runCommand = (command: PaletteCommand | undefined) => {
+    if (!command) {
+      return;
+    }
+    onClose();
+    command.run();
+  };
+
+  const onKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setSelectedIndex(Math.min(activeIndex + 1, visibleCommands.length - 1));
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setSelectedIndex(Math.max(activeIndex - 1, 0));
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      runCommand(visibleCommands[activeIndex]);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="modal-overlay" role="presentation" onClick={onClose}>
+      <div
+        className="modal command-palette"
+        role="dialog"
+        aria-modal="true"
+        aria-label="コマンドパレット"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <input
+          value={query}
+          onChange={(event) => {
+            setQuery(event.target.value);
+            setSelectedIndex(0);
+          }}
+          onKeyDown={onKeyDown}
+          placeholder={placeholder}
+          aria-label={placeholder}
+          autoComplete="off"
+          autoFocus
+        />
+        <ul className="command-list" role="listbox">
+          {visibleCommands.length === 0 ? <li className="command-empty">{emptyMessage}</li> : null}
+          {visibleCommands.map((command, index) => (
+            <li
+              key={command.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`command-item ${index === activeIndex ? "is-selected" : ""}`}
+              onMouseEnter={() => setSelectedIndex(index)}
+              onClick={() => runCommand(command)}
+            >
+              <span>{command.label}</span>
+              {command.shortcut ? <kbd>{command.shortcut}</kbd> : null}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
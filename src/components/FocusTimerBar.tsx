@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import { formatCountdown, getFocusSessionDeadline } from "../focus";
+import type { FocusSession } from "../types";
+
+type FocusTimerBarProps = {
+  session: FocusSession;
+  // 対象の今の本文。消えていれば開始時の本文を出す。
+  targetText?: string;
+  onStop: () => void;
+  onSelectTarget: () => void;
+};
+
+const TICK_MS = 1000;
+
+export function FocusTimerBar({ session, targetText, onStop, onSelectTarget }: FocusTimerBarProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => {
+      window.clearInterval(interval);
+    };
+  }, []);
+
+  const remainingMs = getFocusSessionDeadline(session) - now;
+
+  return (
+    <div className="focus-timer-bar" role="timer" aria-live="off">
+      <span className="focus-timer-bar__time">{formatCountdown(remainingMs)}</span>
+      <button type="button" className="ghost focus-timer-bar__target" onClick={onSelectTarget}>
+        {targetText ?? session.targetText}
+      </button>
+      <button type="button" onClick={onStop}>
+        停止
+      </button>
+    </div>
+  );
+}
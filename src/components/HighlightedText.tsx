@@ -0,0 +1,31 @@
+import { findMatchRanges } from "../search";
+
+type HighlightedTextProps = {
+  text: string;
+  terms: string[];
+};
+
+export function HighlightedText({ text, terms }: HighlightedTextProps) {
+  const ranges = findMatchRanges(text, terms);
+  if (ranges.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts = [];
+  let cursor = 0;
+  for (const range of ranges) {
+    if (range.start > cursor) {
+      parts.push(text.slice(cursor, range.start));
+    }
+    parts.push(
+      <mark key={range.start} className="search-hit">
+        {text.slice(range.start, range.end)}
+      </mark>,
+    );
+    cursor = range.end;
+  }
+  if (cursor < text.length) {
+    parts.push(text.slice(cursor));
+  }
+  return <>{parts}</>;
+}
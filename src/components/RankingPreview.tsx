@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { formatPriority } from "../priority";
+import type { RankingProposal } from "../ranking";
+import type { AppState } from "../types";
+
+type RankingPreviewProps = {
+  proposal: RankingProposal;
+  todosById: AppState["todos"];
+  onApply: (acceptedIds: string[]) => void;
+  onClose: () => void;
+};
+
+export function RankingPreview({ proposal, todosById, onApply, onClose }: RankingPreviewProps) {
+  // 最初はすべて採用しておき、気に入らない行だけ外してもらう。
+  const [rejectedIds, setRejectedIds] = useState<string[]>([]);
+  const rows = [...proposal.rows].sort((a, b) => a.proposedPosition - b.proposedPosition);
+  const allIds = rows.map((row) => row.todoId);
+  const acceptedIds = allIds.filter((id) => !rejectedIds.includes(id));
+
+  const toggleRow = (todoId: string) => {
+    setRejectedIds((prev) => (prev.includes(todoId) ? prev.filter((id) => id !== todoId) : [...prev, todoId]));
+  };
+
+  return (
+    <div className="modal-overlay" role="presentation" onClick={onClose}>
+      <div
+        className="modal ranking-preview"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="ranking-preview-title"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h2 id="ranking-preview-title">AIの並び替え案</h2>
+        <p className="modal-note">採用しない行はチェックを外してください。外した行は今の位置と優先度のまま残ります。</p>
+
+        <table className="ranking-table">
+          <thead>
+            <tr>
+              <th scope="col">採用</th>
+              <th scope="col">TODO</th>
+              <th scope="col">位置</th>
+              <th scope="col">優先度</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const todo = todosById[row.todoId];
+              if (!todo) {
+                return null;
+              }
+              const moved = row.currentPosition !== row.proposedPosition;
+              const reprioritized = row.currentPriority !== row.proposedPriority;
+              return (
+                <tr key={row.todoId} className={rejectedIds.includes(row.todoId) ? "is-rejected" : ""}>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={!rejectedIds.includes(row.todoId)}
+                      onChange={() => toggleRow(row.todoId)}
+                      aria-label={`「${todo.text}」の変更を採用する`}
+                    />
+                  </td>
+                  <td className="ranking-table__text">{todo.text}</td>
+                  <td className={moved ? "is-changed" : ""}>
+                    {moved ? `${row.currentPosition} → ${row.proposedPosition}` : row.currentPosition}
+                  </td>
+                  <td className={reprioritized ? "is-changed" : ""}>
+                    {reprioritized
+                      ? `${formatPriority(row.currentPriority)} → ${formatPriority(row.proposedPriority)}`
+                      : formatPriority(row.currentPriority)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <div className="modal-actions">
+          <button type="button" onClick={() => onApply(allIds)}>
+            すべて適用
+          </button>
+          <button
+            type="button"
+            className="ghost"
+            onClick={() => onApply(acceptedIds)}
+            disabled={acceptedIds.length === 0}
+          >
+            選択した{acceptedIds.length}件を適用
+          </button>
+          <button type="button" className="ghost" onClick={onClose}>
+            キャンセル
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { downloadTextFile } from "../download";
+import { BACKUP_STORAGE_KEY, type StorageError } from "../storage";
+
+type RecoveryScreenProps = {
+  error: StorageError;
+  raw: string;
+  onDiscard: () => void;
+};
+
+export function RecoveryScreen({ error, raw, onDiscard }: RecoveryScreenProps) {
+  const confirmDiscard = () => {
+    const shouldDiscard = window.confirm(
+      "保存データを破棄して空の状態から始めますか？元のデータはバックアップ領域に残ります。",
+    );
+    if (shouldDiscard) {
+      onDiscard();
+    }
+  };
+
+  return (
+    <div className="app-shell">
+      <header className="app-header">
+        <h1>Pirido</h1>
+      </header>
+
+      <section className="recovery-panel" role="alert">
+        <h2>保存データを読み込めませんでした</h2>
+        <p className="error-text">{error.message}</p>
+        {error.code === "LOAD_FAILED" ? (
+          // 保存先そのものを開けていないので、破棄すると読めていないデータを上書きしてしまう。読み直すだけにする。
+          <>
+            <p className="modal-note">データは削除されていません。この画面のあいだは保存データを上書きしません。</p>
+            <div className="modal-actions">
+              <button type="button" onClick={() => window.location.reload()}>
+                再読み込み
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="modal-note">
+              データは削除されていません。この画面を閉じても保存データは上書きされないので、まずは生データをダウンロードして保管してください。
+              破棄した場合も、元のデータはlocalStorageの「{BACKUP_STORAGE_KEY}」に残ります。
+            </p>
+            <div className="modal-actions">
+              <button type="button" onClick={() => downloadTextFile("pirido-unreadable-data.json", raw)}>
+                生データをダウンロード
+              </button>
+              <button type="button" className="danger" onClick={confirmDiscard}>
+                破棄して新しく始める
+              </button>
+            </div>
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
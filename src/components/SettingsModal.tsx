@@ -1,22 +1,168 @@
-import { useState } from "react";
-import { DEFAULT_MODEL, type AppSettings } from "../types";
+import { type ChangeEvent, useState } from "react";
+import { DEFAULT_BASE_URLS, PROVIDER_LABELS } from "../aiProviders";
+import { encryptSecret, SecretError } from "../secretBox";
+import { StorageError } from "../storage";
+import type { ExportOptions, ImportMode } from "../transfer";
+import {
+  AI_PROVIDER_KINDS,
+  type AiProviderKind,
+  type AppSettings,
+  clampArchiveAfterDays,
+  clampRequestTimeoutSeconds,
+  MAX_ARCHIVE_AFTER_DAYS,
+  MAX_REQUEST_TIMEOUT_SECONDS,
+  MIN_REQUEST_TIMEOUT_SECONDS,
+} from "../types";
 
 type SettingsModalProps = {
   settings: AppSettings;
-  onSave: (settings: AppSettings) => void;
+  isApiKeyUnlocked: boolean;
+  // unlockedApiKey は暗号化して保存したときの平文キー。このタブのセッションで使うためだけに渡す。
+  onSave: (settings: AppSettings, unlockedApiKey?: string) => void;
   onClearApiKey: () => void;
+  onLockApiKey: () => void;
+  onExportData: (options: ExportOptions) => void;
+  onImportData: (text: string, mode: ImportMode) => void;
+  onExportMarkdown: () => void;
+  // 読み込んだ項目は常に今の一覧へ追加する。
+  onImportMarkdown: (text: string) => void;
+  onExportFocusCsv: () => void;
   onClose: () => void;
 };
 
-const MODEL_PRESETS = ["gpt-4.1-mini", "gpt-4.1", "gpt-4o-mini", "gpt-4o"];
+const MODEL_PRESETS: Record<AiProviderKind, string[]> = {
+  "openai-responses": ["gpt-4.1-mini", "gpt-4.1", "gpt-4o-mini", "gpt-4o"],
+  "openai-chat": ["gpt-4.1-mini", "gpt-4o-mini", "llama3.1", "qwen2.5"],
+  anthropic: ["claude-3-5-haiku-latest", "claude-3-7-sonnet-latest"],
+};
 
-function normalizeModel(model: string): string {
-  return MODEL_PRESETS.includes(model) ? model : DEFAULT_MODEL;
-}
+const OLLAMA_BASE_URL = "http://localhost:11434/v1";
 
-export function SettingsModal({ settings, onSave, onClearApiKey, onClose }: SettingsModalProps) {
+export function SettingsModal({
+  settings,
+  isApiKeyUnlocked,
+  onSave,
+  onClearApiKey,
+  onLockApiKey,
+  onExportData,
+  onImportData,
+  onExportMarkdown,
+  onImportMarkdown,
+  onExportFocusCsv,
+  onClose,
+}: SettingsModalProps) {
   const [apiKey, setApiKey] = useState(settings.openaiApiKey);
-  const [model, setModel] = useState(normalizeModel(settings.model));
+  const [model, setModel] = useState(settings.model);
+  const [providerKind, setProviderKind] = useState<AiProviderKind>(settings.providerKind);
+  const [baseUrl, setBaseUrl] = useState(settings.baseUrl);
+  const [timeoutSeconds, setTimeoutSeconds] = useState(String(settings.requestTimeoutSeconds));
+  const [archiveAfterDays, setArchiveAfterDays] = useState(String(settings.archiveAfterDays));
+  const [syncServerUrl, setSyncServerUrl] = useState(settings.syncServerUrl);
+  const [syncToken, setSyncToken] = useState(settings.syncToken);
+  const [encryptApiKey, setEncryptApiKey] = useState(Boolean(settings.encryptedApiKey));
+  const [passphrase, setPassphrase] = useState("");
+  const [passphraseConfirm, setPassphraseConfirm] = useState("");
+  const [saveError, setSaveError] = useState<string | undefined>(undefined);
+  const [isSaving, setIsSaving] = useState(false);
+  const [exportIncludesApiKey, setExportIncludesApiKey] = useState(false);
+  const [exportIncludesSyncToken, setExportIncludesSyncToken] = useState(false);
+  const [importMode, setImportMode] = useState<ImportMode>("merge");
+  const [importError, setImportError] = useState<string | undefined>(undefined);
+
+  const changeProviderKind = (nextKind: AiProviderKind) => {
+    setProviderKind(nextKind);
+    if (!MODEL_PRESETS[nextKind].includes(model)) {
+      setModel(MODEL_PRESETS[nextKind][0]);
+    }
+  };
+
+  const applyOllamaPreset = () => {
+    setProviderKind("openai-chat");
+    setBaseUrl(OLLAMA_BASE_URL);
+    setModel("llama3.1");
+  };
+
+  const buildKeySettings = async (): Promise<{
+    keySettings: Pick<AppSettings, "openaiApiKey" | "encryptedApiKey">;
+    unlockedApiKey?: string;
+  }> => {
+    const trimmedKey = apiKey.trim();
+    if (!encryptApiKey) {
+      return { keySettings: { openaiApiKey: trimmedKey, encryptedApiKey: undefined } };
+    }
+    // 新しいキーを入力していなければ、暗号化済みのキーをそのまま残す。
+    if (!trimmedKey) {
+      return { keySettings: { openaiApiKey: "", encryptedApiKey: settings.encryptedApiKey } };
+    }
+    if (!passphrase) {
+      throw new SecretError("WRONG_PASSPHRASE", "暗号化に使うパスフレーズを入力してください。");
+    }
+    if (passphrase !== passphraseConfirm) {
+      throw new SecretError("WRONG_PASSPHRASE", "確認用のパスフレーズが一致しません。");
+    }
+    return {
+      keySettings: { openaiApiKey: "", encryptedApiKey: await encryptSecret(trimmedKey, passphrase) },
+      unlockedApiKey: trimmedKey,
+    };
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const { keySettings, unlockedApiKey } = await buildKeySettings();
+      onSave(
+        {
+          ...keySettings,
+          model: model.trim() || MODEL_PRESETS[providerKind][0],
+          providerKind,
+          baseUrl: baseUrl.trim(),
+          requestTimeoutSeconds: clampRequestTimeoutSeconds(timeoutSeconds),
+          archiveAfterDays: clampArchiveAfterDays(archiveAfterDays),
+          syncServerUrl: syncServerUrl.trim(),
+          syncToken: syncToken.trim(),
+          // 今日の計画パネルで変えるので、ここではそのまま残す。
+          plannerAvailableMinutes: settings.plannerAvailableMinutes,
+        },
+        unlockedApiKey,
+      );
+    } catch (error) {
+      setSaveError(error instanceof SecretError ? error.message : "設定を保存できませんでした。");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onImportMarkdownFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      onImportMarkdown(await file.text());
+      setImportError(undefined);
+      onClose();
+    } catch (error) {
+      setImportError(error instanceof StorageError ? error.message : "ファイルの読み込みに失敗しました。");
+    }
+  };
+
+  const onImportFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      onImportData(await file.text(), importMode);
+      setImportError(undefined);
+      onClose();
+    } catch (error) {
+      setImportError(error instanceof StorageError ? error.message : "ファイルの読み込みに失敗しました。");
+    }
+  };
 
   return (
     <div className="modal-overlay" role="presentation" onClick={onClose}>
@@ -29,37 +175,237 @@ export function SettingsModal({ settings, onSave, onClearApiKey, onClose }: Sett
       >
         <h2 id="settings-title">設定</h2>
         <p className="modal-note">
-          APIキーはブラウザのlocalStorageに平文保存されます。共有端末では使用しないでください。
+          {encryptApiKey
+            ? "APIキーはパスフレーズで暗号化して保存されます。復号したキーはこのタブのメモリにだけ保持します。"
+            : "APIキーはブラウザのストレージに平文保存されます。共有端末では使用しないでください。"}
         </p>
 
-        <label htmlFor="openai-key">OpenAI APIキー</label>
+        <label htmlFor="ai-provider">AIプロバイダー</label>
+        <select
+          id="ai-provider"
+          value={providerKind}
+          onChange={(event) => changeProviderKind(event.target.value as AiProviderKind)}
+        >
+          {AI_PROVIDER_KINDS.map((kind) => (
+            <option key={kind} value={kind}>
+              {PROVIDER_LABELS[kind]}
+            </option>
+          ))}
+        </select>
+
+        <label htmlFor="ai-base-url">ベースURL</label>
+        <input
+          id="ai-base-url"
+          type="url"
+          value={baseUrl}
+          onChange={(event) => setBaseUrl(event.target.value)}
+          placeholder={DEFAULT_BASE_URLS[providerKind]}
+          autoComplete="off"
+        />
+        <p className="modal-note">
+          空欄なら既定のURLを使います。ローカルサーバーを指定した場合、APIキーは空欄でも構いません。
+        </p>
+        <div className="modal-actions">
+          <button type="button" className="ghost" onClick={applyOllamaPreset}>
+            Ollama（ローカル）を使う
+          </button>
+        </div>
+
+        <label htmlFor="openai-key">APIキー</label>
         <input
           id="openai-key"
-          type="text"
+          type="password"
           value={apiKey}
           onChange={(event) => setApiKey(event.target.value)}
-          placeholder="sk-..."
+          placeholder={
+            settings.encryptedApiKey && encryptApiKey
+              ? "暗号化済み（変更する場合のみ入力）"
+              : providerKind === "anthropic"
+                ? "sk-ant-..."
+                : "sk-..."
+          }
           autoComplete="off"
         />
 
+        <label className="checkbox-line">
+          <input
+            type="checkbox"
+            checked={encryptApiKey}
+            onChange={(event) => setEncryptApiKey(event.target.checked)}
+          />
+          <span>パスフレーズで暗号化して保存する</span>
+        </label>
+        {encryptApiKey && apiKey.trim() ? (
+          <>
+            <label htmlFor="api-key-passphrase">パスフレーズ</label>
+            <input
+              id="api-key-passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(event) => setPassphrase(event.target.value)}
+              autoComplete="new-password"
+            />
+            <label htmlFor="api-key-passphrase-confirm">パスフレーズ（確認）</label>
+            <input
+              id="api-key-passphrase-confirm"
+              type="password"
+              value={passphraseConfirm}
+              onChange={(event) => setPassphraseConfirm(event.target.value)}
+              autoComplete="new-password"
+            />
+            <p className="modal-note">パスフレーズを忘れるとキーは復元できません。その場合はキーを入れ直してください。</p>
+          </>
+        ) : null}
+        {!encryptApiKey && settings.encryptedApiKey && !apiKey.trim() ? (
+          <p className="modal-note">暗号化をやめる場合は、APIキーを入力し直してください。空のまま保存するとキーは削除されます。</p>
+        ) : null}
+        {settings.encryptedApiKey && isApiKeyUnlocked ? (
+          <div className="modal-actions">
+            <button type="button" className="ghost" onClick={onLockApiKey}>
+              今すぐロック
+            </button>
+          </div>
+        ) : null}
+
         <label htmlFor="openai-model">モデル</label>
-        <select
+        <input
           id="openai-model"
+          list="openai-model-presets"
           value={model}
           onChange={(event) => setModel(event.target.value)}
-        >
-          {MODEL_PRESETS.map((preset) => (
-            <option key={preset} value={preset}>
-              {preset}
-            </option>
+          autoComplete="off"
+        />
+        <datalist id="openai-model-presets">
+          {MODEL_PRESETS[providerKind].map((preset) => (
+            <option key={preset} value={preset} />
           ))}
-        </select>
+        </datalist>
+
+        <label htmlFor="ai-timeout">タイムアウト（秒）</label>
+        <input
+          id="ai-timeout"
+          type="number"
+          min={MIN_REQUEST_TIMEOUT_SECONDS}
+          max={MAX_REQUEST_TIMEOUT_SECONDS}
+          value={timeoutSeconds}
+          onChange={(event) => setTimeoutSeconds(event.target.value)}
+        />
+
+        <h3 className="modal-section-title">アーカイブ</h3>
+        <label htmlFor="archive-after-days">完了から自動でアーカイブするまでの日数</label>
+        <input
+          id="archive-after-days"
+          type="number"
+          min={0}
+          max={MAX_ARCHIVE_AFTER_DAYS}
+          value={archiveAfterDays}
+          onChange={(event) => setArchiveAfterDays(event.target.value)}
+        />
+        <p className="modal-note">0 にすると自動ではアーカイブしません。</p>
+
+        <h3 className="modal-section-title">端末間の同期</h3>
+        <label htmlFor="sync-server-url">同期サーバーのURL</label>
+        <input
+          id="sync-server-url"
+          type="url"
+          value={syncServerUrl}
+          onChange={(event) => setSyncServerUrl(event.target.value)}
+          placeholder="http://192.168.0.10:8787"
+          autoComplete="off"
+        />
+        <label htmlFor="sync-token">トークン</label>
+        <input
+          id="sync-token"
+          type="password"
+          value={syncToken}
+          onChange={(event) => setSyncToken(event.target.value)}
+          placeholder="サーバーの PIRIDO_SYNC_TOKEN"
+          autoComplete="off"
+        />
+        <p className="modal-note">
+          npm run sync-server で起動したサーバーを指定します。空にすると同期しません。APIキーなどの設定は同期しません。
+        </p>
+
+        <h3 className="modal-section-title">データのバックアップ</h3>
+        <label className="checkbox-line">
+          <input
+            type="checkbox"
+            checked={exportIncludesApiKey}
+            onChange={(event) => setExportIncludesApiKey(event.target.checked)}
+          />
+          <span>APIキーを含めて書き出す（暗号化済みのキーは暗号文のまま）</span>
+        </label>
+        <label className="checkbox-line">
+          <input
+            type="checkbox"
+            checked={exportIncludesSyncToken}
+            onChange={(event) => setExportIncludesSyncToken(event.target.checked)}
+          />
+          <span>同期サーバーのトークンを含めて書き出す</span>
+        </label>
+        <div className="modal-actions">
+          <button type="button" className="ghost" onClick={() => onExportData({ includeApiKey: exportIncludesApiKey, includeSyncToken: exportIncludesSyncToken })}>
+            JSONを書き出す
+          </button>
+        </div>
+
+        <fieldset className="radio-group">
+          <legend>読み込み方法</legend>
+          <label className="checkbox-line">
+            <input
+              type="radio"
+              name="import-mode"
+              checked={importMode === "merge"}
+              onChange={() => setImportMode("merge")}
+            />
+            <span>統合（同じIDのTODO・子タスクは手元のものを残す）</span>
+          </label>
+          <label className="checkbox-line">
+            <input
+              type="radio"
+              name="import-mode"
+              checked={importMode === "replace"}
+              onChange={() => setImportMode("replace")}
+            />
+            <span>すべて置き換える</span>
+          </label>
+        </fieldset>
+        <label htmlFor="import-file">JSONを読み込む</label>
+        <input
+          id="import-file"
+          type="file"
+          accept="application/json,.json"
+          onChange={(event) => void onImportFileChange(event)}
+        />
+
+        <h3 className="modal-section-title">Markdownのタスクリスト</h3>
+        <p className="modal-note">「- [ ] 本文 (P2)」の形式です。子タスクは字下げで表します。</p>
+        <div className="modal-actions">
+          <button type="button" className="ghost" onClick={onExportMarkdown}>
+            Markdownを書き出す
+          </button>
+        </div>
+        <label htmlFor="import-markdown-file">Markdownを読み込む（今の一覧に追加）</label>
+        <input
+          id="import-markdown-file"
+          type="file"
+          accept="text/markdown,text/plain,.md,.markdown,.txt"
+          onChange={(event) => void onImportMarkdownFileChange(event)}
+        />
+        {importError ? <p className="error-text">{importError}</p> : null}
+
+        <h3 className="modal-section-title">集中の記録</h3>
+        <p className="modal-note">終わった集中タイマーの開始・終了時刻と時間をCSVで書き出します。</p>
+        <div className="modal-actions">
+          <button type="button" className="ghost" onClick={onExportFocusCsv}>
+            CSVを書き出す
+          </button>
+        </div>
+
+        {saveError ? <p className="error-text">{saveError}</p> : null}
 
         <div className="modal-actions">
-          <button
-            type="button"
-            onClick={() => onSave({ openaiApiKey: apiKey.trim(), model })}
-          >
+          <button type="button" onClick={() => void save()} disabled={isSaving}>
             保存
           </button>
           <button type="button" className="ghost" onClick={onClearApiKey}>
@@ -0,0 +1,35 @@
+import type { SyncStatus } from "../hooks/useServerSync";
+
+type SyncStatusBadgeProps = {
+  status: SyncStatus;
+};
+
+function formatSyncStatus(status: Exclude<SyncStatus, { kind: "disabled" }>): string {
+  const pending = status.pendingCount > 0 ? `（未送信${status.pendingCount}件）` : "";
+  switch (status.kind) {
+    case "syncing":
+      return `同期中${pending}`;
+    case "synced":
+      return `同期済み${pending}`;
+    case "offline":
+      return `オフライン${pending}`;
+    case "error":
+      return `同期エラー${pending}`;
+  }
+}
+
+// 同期サーバーを設定していないときは何も出さない。
+export function SyncStatusBadge({ status }: SyncStatusBadgeProps) {
+  if (status.kind === "disabled") {
+    return null;
+  }
+  return (
+    <span
+      className={`sync-status is-${status.kind}`}
+      role="status"
+      title={status.kind === "error" ? status.message : undefined}
+    >
+      {formatSyncStatus(status)}
+    </span>
+  );
+}
@@ -0,0 +1,87 @@
+import { formatMinutes } from "../estimate";
+import { type PlannedTodo, planDay } from "../planner";
+import { formatPriority } from "../priority";
+import { type AppState, MAX_PLANNER_AVAILABLE_MINUTES, type Todo } from "../types";
+
+type TodayPlannerProps = {
+  // 並び順のままの一覧。
+  todos: Todo[];
+  subTasksById: AppState["subTasks"];
+  availableMinutes: number;
+  onChangeAvailableMinutes: (minutes: number) => void;
+  onSelectTodo: (todoId: string) => void;
+  onClose: () => void;
+};
+
+export function TodayPlanner({
+  todos,
+  subTasksById,
+  availableMinutes,
+  onChangeAvailableMinutes,
+  onSelectTodo,
+  onClose,
+}: TodayPlannerProps) {
+  const plan = planDay(todos, subTasksById, availableMinutes);
+  const freeMinutes = availableMinutes - plan.plannedMinutes;
+
+  const renderEntries = (entries: PlannedTodo[]) => (
+    <ol className="today-planner__list">
+      {entries.map(({ todo, minutes, isDueToday }) => (
+        <li key={todo.id}>
+          <button type="button" className="ghost today-planner__item" onClick={() => onSelectTodo(todo.id)}>
+            <span className="today-planner__text">{todo.text}</span>
+            {isDueToday ? <span className="todo-due-badge is-soon">今日まで</span> : null}
+            {todo.priority > 0 ? <span className="today-planner__meta">{formatPriority(todo.priority)}</span> : null}
+            <span className="today-planner__meta">{formatMinutes(minutes)}</span>
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+
+  return (
+    <section className="today-planner" aria-labelledby="today-planner-title">
+      <div className="today-planner__header">
+        <h2 id="today-planner-title">今日の計画</h2>
+        <button type="button" className="ghost" onClick={onClose}>
+          閉じる
+        </button>
+      </div>
+
+      <label className="today-planner__hours">
+        今日使える時間
+        <input
+          id="today-planner-hours"
+          type="number"
+          min={0}
+          max={MAX_PLANNER_AVAILABLE_MINUTES / 60}
+          step={0.5}
+          value={availableMinutes / 60}
+          onChange={(event) => onChangeAvailableMinutes(Math.round(Number(event.target.value) * 60))}
+        />
+        時間
+      </label>
+
+      <p className={`today-planner__summary ${plan.isOverbooked ? "is-overbooked" : ""}`} role="status">
+        {plan.isOverbooked
+          ? `今日が期限のTODOだけで${formatMinutes(plan.dueTodayMinutes)}かかり、${formatMinutes(plan.dueTodayMinutes - availableMinutes)}足りません。`
+          : `${plan.planned.length}件・${formatMinutes(plan.plannedMinutes)}を予定（空き${formatMinutes(Math.max(0, freeMinutes))}）`}
+      </p>
+
+      {plan.planned.length > 0 ? renderEntries(plan.planned) : <p className="empty-state">今日に入るTODOはありません</p>}
+
+      {plan.overflow.length > 0 ? (
+        <>
+          <h3 className="today-planner__heading">入りきらないTODO（{plan.overflow.length}件）</h3>
+          {renderEntries(plan.overflow)}
+        </>
+      ) : null}
+
+      {plan.unestimated.length > 0 ? (
+        <p className="modal-note">
+          見積もりの無い子タスクが残っているTODOが{plan.unestimated.length}件あります。子タスクの「見積もり」から時間を入れると計画に含めます。
+        </p>
+      ) : null}
+    </section>
+  );
+}
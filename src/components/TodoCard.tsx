@@ -1,20 +1,129 @@
-import { type DragEvent, type KeyboardEvent, type MouseEvent, useState } from "react";
-import type { SubTask, Todo } from "../types";
+import { type DragEvent, type FormEvent, type KeyboardEvent, type MouseEvent, useRef, useState } from "react";
+import { formatDueAt, fromDateTimeLocalValue, getDueStatus, toDateTimeLocalValue } from "../dueDate";
+import { formatMinutes, getTodoRemainingEstimate, parseDuration } from "../estimate";
+import { formatPriority, PRIORITY_LABELS, PRIORITY_OPTIONS } from "../priority";
+import {
+  formatRecurrenceRule,
+  getNextDueAt,
+  MAX_INTERVAL_DAYS,
+  normalizeRecurrenceRule,
+  WEEKDAY_LABELS,
+} from "../recurrence";
+import { getSubTaskLocation, type SubTaskDestination } from "../restructure";
+import { collectSubTaskTreeIds, getChildSubTasks } from "../subTaskTree";
+import type { AppState, Priority, RecurrenceRule, SubTask, Todo } from "../types";
+import { HighlightedText } from "./HighlightedText";
+
+export type GenerationState = {
+  loading: boolean;
+  error?: string;
+};
+
+// キーボードやコマンドパレットからの編集開始の指示。requestId が変わるたびに1回だけ処理する。
+export type EditRequest = {
+  targetId: string;
+  requestId: number;
+};
+
+const DUE_STATUS_LABELS = {
+  overdue: "期限切れ",
+  soon: "まもなく期限",
+  later: "期限",
+} as const;
+
+const RECURRENCE_KIND_LABELS = {
+  none: "繰り返さない",
+  daily: "毎日",
+  weekly: "毎週",
+  monthly: "毎月",
+  interval: "N日ごと",
+} as const;
+
+type RecurrenceKind = keyof typeof RECURRENCE_KIND_LABELS;
+
+const COPY_STATUS_LABELS = {
+  idle: "コピー",
+  copied: "コピーしました",
+  failed: "コピー失敗",
+} as const;
+
+const COPY_STATUS_RESET_MS = 2000;
+const MINUTE_MS = 60 * 1000;
+
+function formatFocusedMs(ms: number): string {
+  return formatMinutes(Math.round(ms / MINUTE_MS));
+}
+
+// 種類を切り替えたときの初期値は、期限（無ければ今日）の曜日・日付に合わせる。
+function createDefaultRule(kind: RecurrenceKind, dueAt: string | undefined): RecurrenceRule | undefined {
+  const base = dueAt ? new Date(dueAt) : new Date();
+  switch (kind) {
+    case "none":
+      return undefined;
+    case "daily":
+      return { kind: "daily" };
+    case "weekly":
+      return { kind: "weekly", weekdays: [base.getDay()] };
+    case "monthly":
+      return { kind: "monthly", dayOfMonth: base.getDate() };
+    case "interval":
+      return { kind: "interval", days: 2 };
+  }
+}
 
 type TodoCardProps = {
   todo: Todo;
-  subTasks: SubTask[];
+  subTasksById: AppState["subTasks"];
+  subTaskGenerationStates: Record<string, GenerationState>;
   isCollapsed: boolean;
+  // 検索中の語。一致箇所をハイライトする。
+  searchTerms: string[];
+  // キーボード操作のカーソルがこのカード内にあるときの対象ID（TODOか子タスク）。
+  cursorTargetId?: string;
+  editRequest?: EditRequest;
   isGenerating: boolean;
   errorMessage?: string;
+  // AIを使えない理由（オフラインなど）。あるときは生成ボタンを無効にして理由を出す。
+  aiUnavailableReason?: string;
+  // 対象（TODO・子タスク）ごとに集中した時間（ミリ秒）。TODOの分は子タスクの分を含む。
+  focusedMsByTargetId: Record<string, number>;
+  focusedMs: number;
+  // 集中タイマーで計測中の対象がこのカード内にあればそのID。
+  runningFocusTargetId?: string;
+  onStartFocus: (targetId: string) => void;
+  onStopFocus: () => void;
   onToggleTodoCompleted: (todoId: string) => void;
   onToggleCollapsed: (todoId: string) => void;
   onDeleteTodo: (todoId: string) => void;
   onRegenerateSubTasks: (todoId: string) => void;
+  onGenerateChildSubTasks: (todoId: string, subTaskId: string) => void;
+  onCancelGenerate: (targetId: string) => void;
   onUpdateTodoText: (todoId: string, text: string) => void;
+  onUpdateTodoDueAt: (todoId: string, dueAt: string | undefined) => void;
+  onUpdateTodoTags: (todoId: string, tags: string[]) => void;
+  onUpdateTodoRecurrence: (todoId: string, recurrence: RecurrenceRule | undefined) => void;
+  onToggleTodoLocked: (todoId: string) => void;
+  onUpdateTodoPriority: (todoId: string, priority: Priority) => void;
+  // 子タスクを含めたMarkdownのチェックリストをクリップボードへ。失敗したら reject する。
+  onCopyTodoMarkdown: (todoId: string) => Promise<void>;
+  onSelectTag: (tag: string) => void;
+  onAddSubTask: (todoId: string, text: string, parentSubTaskId?: string) => void;
   onToggleSubTaskCompleted: (subTaskId: string) => void;
   onDeleteSubTask: (subTaskId: string) => void;
   onUpdateSubTaskText: (subTaskId: string, text: string) => void;
+  onUpdateSubTaskEstimate: (subTaskId: string, minutes: number | undefined) => void;
+  // index は移す前の並びでの位置で、その手前に入れる。
+  onMoveSubTask: (subTaskId: string, destination: SubTaskDestination, index: number) => void;
+  onPromoteSubTask: (subTaskId: string) => void;
+  // 移動先はカードごとに並べず、App の共通の選択パレットで選ぶ。ほかにTODOが無ければ false。
+  canDemote: boolean;
+  onPickDemoteTarget: (todoId: string) => void;
+  // 子タスクのドラッグはカードをまたぐので、ドラッグ中のIDとドロップ先（子タスクかTODOのID）は App で持つ。
+  draggingSubTaskId?: string;
+  subTaskDropTargetId?: string;
+  onSubTaskDragStart: (subTaskId: string) => void;
+  onSubTaskDragOver: (dropTargetId: string) => void;
+  onSubTaskDragEnd: () => void;
   draggable?: boolean;
   onDragStart?: (event: DragEvent<HTMLElement>) => void;
   onDragOver?: (event: DragEvent<HTMLElement>) => void;
@@ -24,18 +133,48 @@ type TodoCardProps = {
 
 export function TodoCard({
   todo,
-  subTasks,
+  subTasksById,
+  subTaskGenerationStates,
   isCollapsed,
+  searchTerms,
+  cursorTargetId,
+  editRequest,
   isGenerating,
   errorMessage,
+  aiUnavailableReason,
+  focusedMsByTargetId,
+  focusedMs,
+  runningFocusTargetId,
+  onStartFocus,
+  onStopFocus,
   onToggleTodoCompleted,
   onToggleCollapsed,
   onDeleteTodo,
   onRegenerateSubTasks,
+  onGenerateChildSubTasks,
+  onCancelGenerate,
   onUpdateTodoText,
+  onUpdateTodoDueAt,
+  onUpdateTodoTags,
+  onUpdateTodoRecurrence,
+  onToggleTodoLocked,
+  onUpdateTodoPriority,
+  onCopyTodoMarkdown,
+  onSelectTag,
+  onAddSubTask,
   onToggleSubTaskCompleted,
   onDeleteSubTask,
   onUpdateSubTaskText,
+  onUpdateSubTaskEstimate,
+  onMoveSubTask,
+  onPromoteSubTask,
+  canDemote,
+  onPickDemoteTarget,
+  draggingSubTaskId,
+  subTaskDropTargetId,
+  onSubTaskDragStart,
+  onSubTaskDragOver,
+  onSubTaskDragEnd,
   draggable = false,
   onDragStart,
   onDragOver,
@@ -46,6 +185,46 @@ export function TodoCard({
   const [todoDraft, setTodoDraft] = useState(todo.text);
   const [editingSubTaskId, setEditingSubTaskId] = useState<string | null>(null);
   const [subTaskDraft, setSubTaskDraft] = useState("");
+  const [newSubTaskDraft, setNewSubTaskDraft] = useState("");
+  // 入れ子の子タスクを手入力で追加している親子タスクのID。
+  const [addingChildOfId, setAddingChildOfId] = useState<string | null>(null);
+  const [childDraft, setChildDraft] = useState("");
+  const [editingEstimateId, setEditingEstimateId] = useState<string | null>(null);
+  const [estimateDraft, setEstimateDraft] = useState("");
+  const [estimateError, setEstimateError] = useState(false);
+  const estimateCancelledRef = useRef(false);
+  const [tagDraft, setTagDraft] = useState("");
+  const [copyStatus, setCopyStatus] = useState<"idle" | "copied" | "failed">("idle");
+  const [handledEditRequestId, setHandledEditRequestId] = useState(editRequest?.requestId);
+
+  const dueStatus = todo.completed ? "none" : getDueStatus(todo.dueAt);
+  const nextDueAt = getNextDueAt(todo);
+  const remainingEstimate = getTodoRemainingEstimate(todo, subTasksById);
+  const selectedWeekdays = todo.recurrence?.kind === "weekly" ? todo.recurrence.weekdays : [];
+  // ドラッグ中の子タスクとその配下。自分の下へは落とせない。
+  const movingSubTaskIds = draggingSubTaskId ? collectSubTaskTreeIds(subTasksById, [draggingSubTaskId]) : [];
+
+  if (editRequest && editRequest.requestId !== handledEditRequestId) {
+    setHandledEditRequestId(editRequest.requestId);
+    const requestedSubTask = subTasksById[editRequest.targetId];
+    if (editRequest.targetId === todo.id) {
+      setTodoDraft(todo.text);
+      setEditingTodo(true);
+    } else if (requestedSubTask?.parentId === todo.id) {
+      setEditingSubTaskId(requestedSubTask.id);
+      setSubTaskDraft(requestedSubTask.text);
+    }
+  }
+
+  const copyAsMarkdown = async () => {
+    try {
+      await onCopyTodoMarkdown(todo.id);
+      setCopyStatus("copied");
+    } catch {
+      setCopyStatus("failed");
+    }
+    window.setTimeout(() => setCopyStatus("idle"), COPY_STATUS_RESET_MS);
+  };
 
   const startEditTodo = () => {
     setTodoDraft(todo.text);
@@ -78,6 +257,55 @@ export function TodoCard({
     }
   };
 
+  const startEditEstimate = (subTask: SubTask) => {
+    estimateCancelledRef.current = false;
+    setEditingEstimateId(subTask.id);
+    setEstimateDraft(subTask.estimatedMinutes ? formatMinutes(subTask.estimatedMinutes) : "");
+    setEstimateError(false);
+  };
+
+  // 空にすると見積もりを消す。読めない入力は閉じずにそのまま直してもらう。
+  const saveEstimate = (subTaskId: string) => {
+    if (estimateCancelledRef.current) {
+      estimateCancelledRef.current = false;
+      return;
+    }
+    if (!estimateDraft.trim()) {
+      onUpdateSubTaskEstimate(subTaskId, undefined);
+    } else {
+      const minutes = parseDuration(estimateDraft);
+      if (minutes === null) {
+        setEstimateError(true);
+        return;
+      }
+      onUpdateSubTaskEstimate(subTaskId, minutes);
+    }
+    setEditingEstimateId(null);
+  };
+
+  const onEstimateInputKeyDown = (event: KeyboardEvent<HTMLInputElement>, subTaskId: string) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      saveEstimate(subTaskId);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      // 入力欄が消えるときの blur で保存しないようにする。
+      estimateCancelledRef.current = true;
+      setEditingEstimateId(null);
+    }
+  };
+
+  const renderFocusButton = (targetId: string) =>
+    runningFocusTargetId === targetId ? (
+      <button type="button" className="ghost is-active" onClick={onStopFocus} aria-pressed>
+        集中中・停止
+      </button>
+    ) : (
+      <button type="button" className="ghost" onClick={() => onStartFocus(targetId)} title="集中タイマーを始める">
+        集中
+      </button>
+    );
+
   const onSubTaskInputKeyDown = (event: KeyboardEvent<HTMLInputElement>, subTaskId: string) => {
     if (event.key === "Enter") {
       event.preventDefault();
@@ -89,13 +317,262 @@ export function TodoCard({
     }
   };
 
+  const submitNewSubTask = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const text = newSubTaskDraft.trim();
+    if (!text) {
+      return;
+    }
+    onAddSubTask(todo.id, text);
+    setNewSubTaskDraft("");
+  };
+
+  const submitTag = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    // 「仕事, 急ぎ」のようにまとめて入力しても1つずつのタグにする。
+    const added = tagDraft.split(/[,、]/);
+    if (!added.some((tag) => tag.trim())) {
+      return;
+    }
+    onUpdateTodoTags(todo.id, [...todo.tags, ...added]);
+    setTagDraft("");
+  };
+
+  // 入力途中の値でも normalizeRecurrenceRule で範囲内に丸めてから保存する。
+  const updateRecurrence = (rule: RecurrenceRule | undefined) => {
+    onUpdateTodoRecurrence(todo.id, rule ? normalizeRecurrenceRule(rule) : undefined);
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    const weekdays = selectedWeekdays.includes(weekday)
+      ? selectedWeekdays.filter((day) => day !== weekday)
+      : [...selectedWeekdays, weekday];
+    // 曜日を全部外したときは繰り返し自体をやめずに、最後の1つを残す。
+    if (weekdays.length > 0) {
+      updateRecurrence({ kind: "weekly", weekdays });
+    }
+  };
+
+  const startAddChild = (subTaskId: string) => {
+    setAddingChildOfId(subTaskId);
+    setChildDraft("");
+  };
+
+  const submitChild = (event: FormEvent<HTMLFormElement>, parentSubTaskId: string) => {
+    event.preventDefault();
+    const text = childDraft.trim();
+    if (!text) {
+      return;
+    }
+    onAddSubTask(todo.id, text, parentSubTaskId);
+    setChildDraft("");
+  };
+
+  // TODOのドラッグ中は何もせず、カードのドロップ処理に任せる。
+  const onSubTaskRowDragOver = (event: DragEvent<HTMLElement>, subTaskId: string) => {
+    if (!draggingSubTaskId) {
+      return;
+    }
+    event.stopPropagation();
+    if (movingSubTaskIds.includes(subTaskId)) {
+      return;
+    }
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    onSubTaskDragOver(subTaskId);
+  };
+
+  // 落とした子タスクの手前、同じ親の下へ入れる。
+  const onSubTaskRowDrop = (event: DragEvent<HTMLElement>, subTask: SubTask, index: number) => {
+    if (!draggingSubTaskId) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    onMoveSubTask(draggingSubTaskId, getSubTaskLocation(subTask), index);
+    onSubTaskDragEnd();
+  };
+
+  // 子タスクの行以外へ落としたときは、このTODO直下の末尾へ入れる。
+  const onCardDragOver = (event: DragEvent<HTMLElement>) => {
+    if (!draggingSubTaskId) {
+      onDragOver?.(event);
+      return;
+    }
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    onSubTaskDragOver(todo.id);
+  };
+
+  const onCardDrop = (event: DragEvent<HTMLElement>) => {
+    if (!draggingSubTaskId) {
+      onDrop?.(event);
+      return;
+    }
+    event.preventDefault();
+    onMoveSubTask(draggingSubTaskId, { todoId: todo.id }, todo.subTaskIds.length);
+    onSubTaskDragEnd();
+  };
+
+  const renderSubTasks = (subTaskIds: string[], numberPrefix: string, nested: boolean) => (
+    <ul className={`subtask-list ${nested ? "is-nested" : ""}`}>
+      {getChildSubTasks(subTasksById, subTaskIds).map((subTask, index) => {
+        const number = `${numberPrefix}${index + 1}.`;
+        const generationState = subTaskGenerationStates[subTask.id];
+        return (
+          <li key={subTask.id} className="subtask-item">
+            <div
+              className={`subtask-row ${cursorTargetId === subTask.id ? "is-cursor" : ""} ${subTaskDropTargetId === subTask.id ? "is-drop-before" : ""}`}
+              draggable={editingSubTaskId !== subTask.id && editingEstimateId !== subTask.id}
+              onDragStart={(event) => {
+                // カード全体のドラッグ（TODOの並び替え）にしない。
+                event.stopPropagation();
+                event.dataTransfer.effectAllowed = "move";
+                event.dataTransfer.setData("text/plain", subTask.id);
+                onSubTaskDragStart(subTask.id);
+              }}
+              onDragOver={(event) => onSubTaskRowDragOver(event, subTask.id)}
+              onDrop={(event) => onSubTaskRowDrop(event, subTask, subTaskIds.indexOf(subTask.id))}
+              onDragEnd={(event) => {
+                event.stopPropagation();
+                onSubTaskDragEnd();
+              }}
+            >
+              {editingSubTaskId === subTask.id ? (
+                <div className="edit-block">
+                  <input
+                    value={subTaskDraft}
+                    onChange={(event) => setSubTaskDraft(event.target.value)}
+                    onKeyDown={(event) => onSubTaskInputKeyDown(event, subTask.id)}
+                    autoFocus
+                  />
+                  <div className="edit-actions">
+                    <button type="button" onClick={() => saveSubTask(subTask.id)}>
+                      保存
+                    </button>
+                    <button type="button" className="ghost" onClick={() => setEditingSubTaskId(null)}>
+                      キャンセル
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <label className="checkbox-line">
+                  <input
+                    type="checkbox"
+                    checked={subTask.completed}
+                    onChange={() => onToggleSubTaskCompleted(subTask.id)}
+                  />
+                  <span
+                    className={`editable-text ${subTask.completed ? "is-done" : ""}`}
+                    onClick={() => startEditSubTask(subTask)}
+                  >
+                    {number} <HighlightedText text={subTask.text} terms={searchTerms} />
+                  </span>
+                </label>
+              )}
+
+              <div className="subtask-row__meta">
+                {editingEstimateId === subTask.id ? (
+                  <input
+                    className={`subtask-estimate-input ${estimateError ? "is-invalid" : ""}`}
+                    value={estimateDraft}
+                    onChange={(event) => {
+                      setEstimateDraft(event.target.value);
+                      setEstimateError(false);
+                    }}
+                    onKeyDown={(event) => onEstimateInputKeyDown(event, subTask.id)}
+                    onBlur={() => saveEstimate(subTask.id)}
+                    placeholder="30分・1時間半"
+                    aria-label="見積もり時間"
+                    aria-invalid={estimateError}
+                    title="「30」「1時間半」「1:30」などで入力。空にすると見積もりを消します"
+                    autoFocus
+                  />
+                ) : (
+                  <button
+                    type="button"
+                    className={`ghost subtask-estimate ${subTask.estimatedMinutes ? "" : "is-empty"}`}
+                    onClick={() => startEditEstimate(subTask)}
+                    title="見積もり時間を編集"
+                  >
+                    {subTask.estimatedMinutes ? formatMinutes(subTask.estimatedMinutes) : "見積もり"}
+                  </button>
+                )}
+                {focusedMsByTargetId[subTask.id] >= MINUTE_MS ? (
+                  <span className="focus-total">{formatFocusedMs(focusedMsByTargetId[subTask.id])}</span>
+                ) : null}
+                {renderFocusButton(subTask.id)}
+                {generationState?.loading ? (
+                  <button type="button" className="ghost" onClick={() => onCancelGenerate(subTask.id)}>
+                    分解中... キャンセル
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    className="ghost"
+                    onClick={() => onGenerateChildSubTasks(todo.id, subTask.id)}
+                    disabled={Boolean(aiUnavailableReason)}
+                    title={aiUnavailableReason}
+                  >
+                    AIで分解
+                  </button>
+                )}
+                <button type="button" className="ghost" onClick={() => startAddChild(subTask.id)}>
+                  追加
+                </button>
+                <button
+                  type="button"
+                  className="ghost"
+                  onClick={() => onPromoteSubTask(subTask.id)}
+                  title="配下の子タスクごと、独立したTODOにします"
+                >
+                  TODOにする
+                </button>
+                <button type="button" className="ghost" onClick={() => onDeleteSubTask(subTask.id)}>
+                  削除
+                </button>
+              </div>
+            </div>
+
+            {generationState?.error ? <p className="error-text">{generationState.error}</p> : null}
+            {subTask.subTaskIds.length > 0 ? renderSubTasks(subTask.subTaskIds, number, true) : null}
+            {addingChildOfId === subTask.id ? (
+              <form className="subtask-add is-nested" onSubmit={(event) => submitChild(event, subTask.id)}>
+                <input
+                  value={childDraft}
+                  onChange={(event) => setChildDraft(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === "Escape") {
+                      event.preventDefault();
+                      setAddingChildOfId(null);
+                    }
+                  }}
+                  placeholder={`「${subTask.text}」の子タスクを追加`}
+                  autoComplete="off"
+                  autoFocus
+                />
+                <button type="button" className="ghost" onClick={() => setAddingChildOfId(null)}>
+                  閉じる
+                </button>
+              </form>
+            ) : null}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
   const onCardClick = (event: MouseEvent<HTMLElement>) => {
     if (editingTodo) {
       return;
     }
 
     const target = event.target as HTMLElement;
-    if (target.closest("button, input, .checkbox-line, .editable-text, .edit-block, .subtask-list")) {
+    if (
+      target.closest(
+        "button, input, .checkbox-line, .editable-text, .edit-block, .subtask-list, .subtask-add, .todo-tag-list",
+      )
+    ) {
       return;
     }
     if (target.closest(".todo-card__header")) {
@@ -103,22 +580,15 @@ export function TodoCard({
     }
   };
 
-  const confirmDeleteTodo = () => {
-    const shouldDelete = window.confirm("この親TODOを削除しますか？");
-    if (shouldDelete) {
-      onDeleteTodo(todo.id);
-    }
-  };
-
   return (
     <article
-      className="todo-card"
+      className={`todo-card ${cursorTargetId === todo.id ? "is-cursor" : ""} ${subTaskDropTargetId === todo.id ? "is-subtask-drop" : ""}`}
       aria-busy={isGenerating}
       onClick={onCardClick}
       draggable={draggable}
       onDragStart={onDragStart}
-      onDragOver={onDragOver}
-      onDrop={onDrop}
+      onDragOver={onCardDragOver}
+      onDrop={onCardDrop}
       onDragEnd={onDragEnd}
     >
       <header className="todo-card__header">
@@ -169,70 +639,219 @@ export function TodoCard({
                   startEditTodo();
                 }}
               >
-                {todo.text}
+                <HighlightedText text={todo.text} terms={searchTerms} />
               </span>
-              <span className="todo-priority-badge">P{todo.priority}</span>
+              {todo.dueAt ? (
+                <span className={`todo-due-badge ${dueStatus !== "none" ? `is-${dueStatus}` : ""}`}>
+                  {dueStatus !== "none" ? `${DUE_STATUS_LABELS[dueStatus]} ` : ""}
+                  {formatDueAt(todo.dueAt)}
+                </span>
+              ) : null}
+              {todo.recurrence ? (
+                <span className="todo-recurrence-badge">
+                  {formatRecurrenceRule(todo.recurrence)}
+                  {nextDueAt ? ` ・次回 ${formatDueAt(nextDueAt)}` : ""}
+                </span>
+              ) : null}
+              {remainingEstimate.minutes > 0 ? (
+                <span
+                  className="todo-estimate-badge"
+                  title={
+                    remainingEstimate.unestimatedCount > 0
+                      ? `見積もりの無い子タスクが${remainingEstimate.unestimatedCount}件あります`
+                      : undefined
+                  }
+                >
+                  残り {formatMinutes(remainingEstimate.minutes)}
+                  {remainingEstimate.unestimatedCount > 0 ? "+" : ""}
+                </span>
+              ) : null}
+              <select
+                className={`todo-priority-select ${todo.priority === 0 ? "is-unranked" : ""}`}
+                value={todo.priority}
+                onClick={(event) => event.stopPropagation()}
+                onChange={(event) => onUpdateTodoPriority(todo.id, Number(event.target.value) as Priority)}
+                aria-label="優先度"
+                title={PRIORITY_LABELS[todo.priority]}
+              >
+                {PRIORITY_OPTIONS.map((priority) => (
+                  <option key={priority} value={priority}>
+                    {priority === 0 ? formatPriority(priority) : `${formatPriority(priority)} ${PRIORITY_LABELS[priority]}`}
+                  </option>
+                ))}
+              </select>
             </label>
           )}
         </div>
 
         <div className="todo-card__actions">
-          <button type="button" onClick={() => onRegenerateSubTasks(todo.id)} disabled={isGenerating}>
-            {isGenerating ? "生成中..." : "子タスクを生成"}
+          {isGenerating ? (
+            <button type="button" className="ghost" onClick={() => onCancelGenerate(todo.id)}>
+              生成中... キャンセル
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={() => onRegenerateSubTasks(todo.id)}
+              disabled={Boolean(aiUnavailableReason)}
+              title={aiUnavailableReason}
+            >
+              子タスクを生成
+            </button>
+          )}
+          {renderFocusButton(todo.id)}
+          {focusedMs >= MINUTE_MS ? (
+            <span className="focus-total" title="集中タイマーで記録した時間（子タスクの分を含む）">
+              計 {formatFocusedMs(focusedMs)}
+            </span>
+          ) : null}
+          <button
+            type="button"
+            className={`ghost ${todo.locked ? "is-active" : ""}`}
+            onClick={() => onToggleTodoLocked(todo.id)}
+            aria-pressed={Boolean(todo.locked)}
+            title="固定したTODOはAI優先順位で位置も優先度も変わりません"
+          >
+            {todo.locked ? "固定中" : "固定"}
           </button>
-          <button type="button" className="danger" onClick={confirmDeleteTodo}>
+          <button
+            type="button"
+            className="ghost"
+            onClick={() => void copyAsMarkdown()}
+            title="子タスクを含めてMarkdownのチェックリストとしてコピーします"
+          >
+            {COPY_STATUS_LABELS[copyStatus]}
+          </button>
+          <button type="button" className="danger" onClick={() => onDeleteTodo(todo.id)}>
             削除
           </button>
         </div>
       </header>
 
+      {todo.tags.length > 0 ? (
+        <ul className="todo-tag-list" aria-label="タグ">
+          {todo.tags.map((tag) => (
+            <li key={tag} className="tag-chip">
+              <button type="button" className="tag-chip__label" onClick={() => onSelectTag(tag)} title="このタグで絞り込む">
+                #{tag}
+              </button>
+              <button
+                type="button"
+                className="tag-chip__remove"
+                onClick={() => onUpdateTodoTags(todo.id, todo.tags.filter((item) => item !== tag))}
+                aria-label={`タグ「${tag}」を外す`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
       {!isCollapsed ? (
         <>
           {errorMessage ? <p className="error-text">{errorMessage}</p> : null}
-          <ul className="subtask-list">
-            {subTasks.map((subTask, index) => (
-              <li key={subTask.id} className="subtask-row">
-                {editingSubTaskId === subTask.id ? (
-                  <div className="edit-block">
-                    <input
-                      value={subTaskDraft}
-                      onChange={(event) => setSubTaskDraft(event.target.value)}
-                      onKeyDown={(event) => onSubTaskInputKeyDown(event, subTask.id)}
-                      autoFocus
-                    />
-                    <div className="edit-actions">
-                      <button type="button" onClick={() => saveSubTask(subTask.id)}>
-                        保存
-                      </button>
-                      <button type="button" className="ghost" onClick={() => setEditingSubTaskId(null)}>
-                        キャンセル
-                      </button>
-                    </div>
-                  </div>
-                ) : (
-                  <label className="checkbox-line">
-                    <input
-                      type="checkbox"
-                      checked={subTask.completed}
-                      onChange={() => onToggleSubTaskCompleted(subTask.id)}
-                    />
-                    <span
-                      className={`editable-text ${subTask.completed ? "is-done" : ""}`}
-                      onClick={() => startEditSubTask(subTask)}
-                    >
-                      {index + 1}. {subTask.text}
-                    </span>
-                  </label>
-                )}
-
-                <div className="subtask-row__meta">
-                  <button type="button" className="ghost" onClick={() => onDeleteSubTask(subTask.id)}>
-                    削除
+          <div className="todo-due-row">
+            <label htmlFor={`todo-due-${todo.id}`}>期限</label>
+            <input
+              id={`todo-due-${todo.id}`}
+              type="datetime-local"
+              value={toDateTimeLocalValue(todo.dueAt)}
+              onChange={(event) => onUpdateTodoDueAt(todo.id, fromDateTimeLocalValue(event.target.value))}
+            />
+            {todo.dueAt ? (
+              <button type="button" className="ghost" onClick={() => onUpdateTodoDueAt(todo.id, undefined)}>
+                期限をクリア
+              </button>
+            ) : null}
+          </div>
+          <div className="todo-due-row todo-recurrence-row">
+            <label htmlFor={`todo-recurrence-${todo.id}`}>繰り返し</label>
+            <select
+              id={`todo-recurrence-${todo.id}`}
+              value={todo.recurrence?.kind ?? "none"}
+              onChange={(event) => updateRecurrence(createDefaultRule(event.target.value as RecurrenceKind, todo.dueAt))}
+            >
+              {Object.entries(RECURRENCE_KIND_LABELS).map(([kind, label]) => (
+                <option key={kind} value={kind}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            {todo.recurrence?.kind === "weekly" ? (
+              <span className="weekday-picker" role="group" aria-label="繰り返す曜日">
+                {WEEKDAY_LABELS.map((label, weekday) => (
+                  <button
+                    key={label}
+                    type="button"
+                    className={`weekday-toggle ${selectedWeekdays.includes(weekday) ? "is-active" : ""}`}
+                    aria-pressed={selectedWeekdays.includes(weekday)}
+                    onClick={() => toggleWeekday(weekday)}
+                  >
+                    {label}
                   </button>
-                </div>
-              </li>
-            ))}
-          </ul>
+                ))}
+              </span>
+            ) : null}
+            {todo.recurrence?.kind === "monthly" ? (
+              <label className="recurrence-number">
+                <input
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={todo.recurrence.dayOfMonth}
+                  onChange={(event) => updateRecurrence({ kind: "monthly", dayOfMonth: Number(event.target.value) })}
+                />
+                日
+              </label>
+            ) : null}
+            {todo.recurrence?.kind === "interval" ? (
+              <label className="recurrence-number">
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_INTERVAL_DAYS}
+                  value={todo.recurrence.days}
+                  onChange={(event) => updateRecurrence({ kind: "interval", days: Number(event.target.value) })}
+                />
+                日ごと
+              </label>
+            ) : null}
+          </div>
+          <form className="todo-due-row" onSubmit={submitTag}>
+            <label htmlFor={`todo-tag-${todo.id}`}>タグ</label>
+            <input
+              id={`todo-tag-${todo.id}`}
+              value={tagDraft}
+              onChange={(event) => setTagDraft(event.target.value)}
+              placeholder="例: 仕事"
+              autoComplete="off"
+            />
+          </form>
+          {canDemote ? (
+            <div className="todo-due-row">
+              <label htmlFor={`todo-demote-${todo.id}`}>移動</label>
+              <button
+                id={`todo-demote-${todo.id}`}
+                type="button"
+                className="ghost"
+                onClick={() => onPickDemoteTarget(todo.id)}
+                title="このTODOを配下の子タスクごと、選んだTODOの子タスクにします"
+              >
+                ほかのTODOの子タスクにする…
+              </button>
+            </div>
+          ) : null}
+          {renderSubTasks(todo.subTaskIds, "", false)}
+          <form className="subtask-add" onSubmit={submitNewSubTask}>
+            <input
+              id={`todo-new-subtask-${todo.id}`}
+              value={newSubTaskDraft}
+              onChange={(event) => setNewSubTaskDraft(event.target.value)}
+              placeholder="子タスクを追加"
+              autoComplete="off"
+            />
+          </form>
         </>
       ) : null}
     </article>
@@ -1,19 +1,28 @@
 import { type FormEvent, useState } from "react";
+import { parseQuickAdd, type QuickAddResult } from "../quickAdd";
 
 type TodoInputProps = {
-  onAdd: (text: string) => void;
+  onAdd: (draft: QuickAddResult) => void;
 };
 
+const TOKEN_KIND_LABELS = {
+  priority: "優先度",
+  tag: "タグ",
+  due: "期限",
+} as const;
+
 export function TodoInput({ onAdd }: TodoInputProps) {
   const [value, setValue] = useState("");
+  // 入力のたびに読み直して、送信前に何が指定として扱われるかを見せる。
+  const draft = parseQuickAdd(value);
 
   const submit = (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
-    const text = value.trim();
-    if (!text) {
+    const submitted = parseQuickAdd(value);
+    if (!submitted.text) {
       return;
     }
-    onAdd(text);
+    onAdd(submitted);
     setValue("");
   };
 
@@ -24,9 +33,21 @@ export function TodoInput({ onAdd }: TodoInputProps) {
         name="new-todo"
         value={value}
         onChange={(event) => setValue(event.target.value)}
-        placeholder="TODO"
+        placeholder="TODO（例: 資料作成 金曜まで #仕事 !2）"
         autoComplete="off"
+        aria-describedby="new-todo-preview"
       />
+      {draft.tokens.length > 0 ? (
+        <ul id="new-todo-preview" className="quick-add-preview" aria-live="polite" aria-label="読み取った指定">
+          {draft.tokens.map((token) => (
+            <li key={`${token.kind}-${token.label}`} className={`quick-add-chip is-${token.kind}`} title={token.source}>
+              <span className="quick-add-chip__kind">{TOKEN_KIND_LABELS[token.kind]}</span>
+              {token.label}
+            </li>
+          ))}
+          {!draft.text ? <li className="quick-add-preview__warning">本文がありません</li> : null}
+        </ul>
+      ) : null}
     </form>
   );
 }
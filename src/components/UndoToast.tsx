@@ -0,0 +1,31 @@
+import { useEffect } from "react";
+import type { UndoNotice } from "../hooks/useAppState";
+
+type UndoToastProps = {
+  notice: UndoNotice;
+  onUndo: () => void;
+  onDismiss: () => void;
+};
+
+const TOAST_DURATION_MS = 6000;
+
+export function UndoToast({ notice, onUndo, onDismiss }: UndoToastProps) {
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => {
+      window.clearTimeout(timer);
+    };
+  }, [notice.id, onDismiss]);
+
+  return (
+    <div className="toast" role="status">
+      <span>{notice.message}</span>
+      <button type="button" onClick={onUndo}>
+        元に戻す
+      </button>
+      <button type="button" className="ghost" aria-label="閉じる" onClick={onDismiss}>
+        ×
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { type FormEvent, useState } from "react";
+import { decryptSecret, SecretError } from "../secretBox";
+import type { EncryptedSecret } from "../types";
+
+type UnlockModalProps = {
+  secret: EncryptedSecret;
+  onUnlocked: (apiKey: string) => void;
+  onOpenSettings: () => void;
+  onClose: () => void;
+};
+
+export function UnlockModal({ secret, onUnlocked, onOpenSettings, onClose }: UnlockModalProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const unlock = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!passphrase) {
+      return;
+    }
+    setIsUnlocking(true);
+    try {
+      onUnlocked(await decryptSecret(secret, passphrase));
+    } catch (unlockError) {
+      setError(unlockError instanceof SecretError ? unlockError.message : "APIキーを復号できませんでした。");
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" role="presentation" onClick={onClose}>
+      <form
+        className="modal"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="unlock-title"
+        onClick={(event) => event.stopPropagation()}
+        onSubmit={(event) => void unlock(event)}
+      >
+        <h2 id="unlock-title">APIキーのロック解除</h2>
+        <p className="modal-note">APIキーは暗号化されています。このタブで使うにはパスフレーズを入力してください。</p>
+
+        <label htmlFor="unlock-passphrase">パスフレーズ</label>
+        <input
+          id="unlock-passphrase"
+          type="password"
+          value={passphrase}
+          onChange={(event) => setPassphrase(event.target.value)}
+          autoComplete="current-password"
+          autoFocus
+        />
+
+        {error ? <p className="error-text">{error}</p> : null}
+
+        <div className="modal-actions">
+          <button type="submit" disabled={!passphrase || isUnlocking}>
+            {isUnlocking ? "解除中..." : "解除"}
+          </button>
+          <button type="button" className="ghost" onClick={onOpenSettings}>
+            キーを入れ直す
+          </button>
+          <button type="button" className="ghost" onClick={onClose}>
+            キャンセル
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
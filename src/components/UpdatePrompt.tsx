@@ -0,0 +1,19 @@
+type UpdatePromptProps = {
+  onUpdate: () => void;
+  onDismiss: () => void;
+};
+
+// 元に戻すトーストと重ならないよう、画面上部に出す。
+export function UpdatePrompt({ onUpdate, onDismiss }: UpdatePromptProps) {
+  return (
+    <div className="toast is-top" role="status">
+      <span>新しいバージョンがあります</span>
+      <button type="button" onClick={onUpdate}>
+        更新
+      </button>
+      <button type="button" className="ghost" aria-label="閉じる" onClick={onDismiss}>
+        ×
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+export type DueStatus = "none" | "overdue" | "soon" | "later";
+
+const DUE_SOON_MS = 24 * 60 * 60 * 1000;
+
+function pad2(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+export function getDueStatus(dueAt: string | undefined, now: Date = new Date()): DueStatus {
+  if (!dueAt) {
+    return "none";
+  }
+  const time = Date.parse(dueAt);
+  if (Number.isNaN(time)) {
+    return "none";
+  }
+  const remaining = time - now.getTime();
+  if (remaining < 0) {
+    return "overdue";
+  }
+  if (remaining <= DUE_SOON_MS) {
+    return "soon";
+  }
+  return "later";
+}
+
+// <input type="datetime-local"> はローカル時刻の "YYYY-MM-DDTHH:mm" を扱う。
+export function toDateTimeLocalValue(dueAt: string | undefined): string {
+  if (!dueAt) {
+    return "";
+  }
+  const date = new Date(dueAt);
+  if (Number.isNaN(date.getTime())) {
+    return "";
+  }
+  return [
+    `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`,
+    `${pad2(date.getHours())}:${pad2(date.getMinutes())}`,
+  ].join("T");
+}
+
+export function fromDateTimeLocalValue(value: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+export function formatDueAt(dueAt: string): string {
+  const date = new Date(dueAt);
+  if (Number.isNaN(date.getTime())) {
+    return "";
+  }
+  return `${date.getMonth() + 1}/${date.getDate()} ${pad2(date.getHours())}:${pad2(date.getMinutes())}`;
+}
+
+// AIに渡す日時はタイムゾーン付きのローカル時刻にする（UTCだと「今日」の解釈がずれる）。
+export function toLocalIsoString(date: Date): string {
+  const offsetMinutes = -date.getTimezoneOffset();
+  const sign = offsetMinutes >= 0 ? "+" : "-";
+  const absOffset = Math.abs(offsetMinutes);
+  return [
+    `${toDateTimeLocalValue(date.toISOString())}:${pad2(date.getSeconds())}`,
+    `${sign}${pad2(Math.floor(absOffset / 60))}:${pad2(absOffset % 60)}`,
+  ].join("");
+}
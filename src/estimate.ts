@@ -0,0 +1,81 @@
+import type { AppState, SubTask, Todo } from "./types";
+
+// 子タスク1件の見積もりの上限（分）。数日かかる作業は分解して見積もる想定。
+export const MAX_ESTIMATED_MINUTES = 99 * 60;
+
+// 残りの作業時間。unestimatedCount は見積もりの無い未完了の作業の数。
+export type RemainingEstimate = {
+  minutes: number;
+  unestimatedCount: number;
+};
+
+export function normalizeEstimatedMinutes(value: unknown): number | undefined {
+  const minutes = Math.round(Number(value));
+  if (!Number.isFinite(minutes) || minutes <= 0) {
+    return undefined;
+  }
+  return Math.min(minutes, MAX_ESTIMATED_MINUTES);
+}
+
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) {
+    return `${rest}分`;
+  }
+  return rest === 0 ? `${hours}時間` : `${hours}時間${rest}分`;
+}
+
+// 「30」「30分」「1時間半」「1.5h」「1:30」「90m」などを分に直す。読めなければ null。
+export function parseDuration(input: string): number | null {
+  const text = input.trim().toLowerCase().replace(/\s+/g, "");
+  const clock = /^(\d+):([0-5]\d)$/.exec(text);
+  if (clock) {
+    return normalizeEstimatedMinutes(Number(clock[1]) * 60 + Number(clock[2])) ?? null;
+  }
+  const found = /^(?:(\d+(?:\.\d+)?)(?:時間|h|hr|hours?)(半)?)?(?:(\d+)(?:分|m|min|mins|minutes?)?)?$/.exec(text);
+  if (!found || (!found[1] && !found[3])) {
+    return null;
+  }
+  const minutes = Number(found[1] ?? 0) * 60 + (found[2] ? 30 : 0) + Number(found[3] ?? 0);
+  return normalizeEstimatedMinutes(minutes) ?? null;
+}
+
+// 子タスクの残り時間。子に見積もりがあればそちらを細かい見積もりとして使い、無ければ自身の見積もりを使う。
+export function getSubTaskRemainingEstimate(subTask: SubTask, subTasks: AppState["subTasks"]): RemainingEstimate {
+  if (subTask.completed) {
+    return { minutes: 0, unestimatedCount: 0 };
+  }
+  const children = sumRemainingEstimates(subTask.subTaskIds, subTasks);
+  if (children.minutes > 0) {
+    return children;
+  }
+  return subTask.estimatedMinutes
+    ? { minutes: subTask.estimatedMinutes, unestimatedCount: 0 }
+    : { minutes: 0, unestimatedCount: 1 };
+}
+
+function sumRemainingEstimates(subTaskIds: string[], subTasks: AppState["subTasks"]): RemainingEstimate {
+  const total: RemainingEstimate = { minutes: 0, unestimatedCount: 0 };
+  for (const subTaskId of subTaskIds) {
+    const subTask = subTasks[subTaskId];
+    if (!subTask) {
+      continue;
+    }
+    const remaining = getSubTaskRemainingEstimate(subTask, subTasks);
+    total.minutes += remaining.minutes;
+    total.unestimatedCount += remaining.unestimatedCount;
+  }
+  return total;
+}
+
+// 子タスクの無いTODOは、TODO自体を見積もりの無い作業1件として数える。
+export function getTodoRemainingEstimate(todo: Todo, subTasks: AppState["subTasks"]): RemainingEstimate {
+  if (todo.completed) {
+    return { minutes: 0, unestimatedCount: 0 };
+  }
+  if (todo.subTaskIds.length === 0) {
+    return { minutes: 0, unestimatedCount: 1 };
+  }
+  return sumRemainingEstimates(todo.subTaskIds, subTasks);
+}
@@ -0,0 +1,92 @@
+import type { AppState, FocusSession } from "./types";
+
+export const DEFAULT_FOCUS_MINUTES = 25;
+export const MAX_FOCUS_MINUTES = 180;
+
+function pad2(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+export function clampFocusMinutes(value: unknown): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    return DEFAULT_FOCUS_MINUTES;
+  }
+  return Math.min(MAX_FOCUS_MINUTES, Math.max(1, Math.round(parsed)));
+}
+
+export function getRunningFocusSession(sessions: AppState["focusSessions"]): FocusSession | undefined {
+  let running: FocusSession | undefined;
+  for (const session of Object.values(sessions)) {
+    if (!session.endedAt && (!running || session.startedAt > running.startedAt)) {
+      running = session;
+    }
+  }
+  return running;
+}
+
+// 予定どおり続けたときに終わる時刻（ミリ秒）。
+export function getFocusSessionDeadline(session: FocusSession): number {
+  return Date.parse(session.startedAt) + session.plannedMinutes * 60 * 1000;
+}
+
+// 終わったセッションの長さ（ミリ秒）。計測中のものは 0。
+export function getFocusedMs(session: FocusSession): number {
+  if (!session.endedAt) {
+    return 0;
+  }
+  return Math.max(0, Date.parse(session.endedAt) - Date.parse(session.startedAt));
+}
+
+// 対象ID（key が "todoId" なら子タスクの分もTODOにまとめる）ごとの集中した時間（ミリ秒）。
+export function sumFocusedMs(sessions: AppState["focusSessions"], key: "targetId" | "todoId"): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const session of Object.values(sessions)) {
+    const focused = getFocusedMs(session);
+    if (focused > 0) {
+      totals[session[key]] = (totals[session[key]] ?? 0) + focused;
+    }
+  }
+  return totals;
+}
+
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${pad2(Math.floor(totalSeconds / 60))}:${pad2(totalSeconds % 60)}`;
+}
+
+function formatLocalDateTime(iso: string): string {
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())} ${pad2(date.getHours())}:${pad2(date.getMinutes())}`;
+}
+
+// 「=」などで始まる本文を表計算ソフトが数式として実行しないよう、先頭に ' を付ける。
+function escapeCsvField(value: string): string {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// 終わったセッションを開始順に書き出す。Excel で文字化けしないよう先頭に BOM を付ける。
+export function focusSessionsToCsv(state: AppState): string {
+  const rows = Object.values(state.focusSessions)
+    .filter((session) => session.endedAt)
+    .sort((a, b) => (a.startedAt < b.startedAt ? -1 : a.startedAt > b.startedAt ? 1 : 0))
+    .map((session) => {
+      const isSubTask = session.targetId !== session.todoId;
+      const todoText = state.todos[session.todoId]?.text ?? (isSubTask ? "" : session.targetText);
+      const subTaskText = isSubTask ? (state.subTasks[session.targetId]?.text ?? session.targetText) : "";
+      return [
+        formatLocalDateTime(session.startedAt),
+        formatLocalDateTime(session.endedAt ?? session.startedAt),
+        String(Math.round(getFocusedMs(session) / 60000)),
+        todoText,
+        subTaskText,
+      ];
+    });
+  const lines = [["開始", "終了", "分", "TODO", "子タスク"], ...rows].map((row) => row.map(escapeCsvField).join(","));
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
+
+export function buildFocusCsvFileName(now: Date = new Date()): string {
+  return `pirido-focus-${now.getFullYear()}${pad2(now.getMonth() + 1)}${pad2(now.getDate())}.csv`;
+}
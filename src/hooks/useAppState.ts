@@ -1,43 +1,519 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { loadState, saveState } from "../storage";
-import type { AppSettings, AppState, Priority, SubTask, Todo } from "../types";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { archiveTodos, getArchivedTodos, selectArchivableTodoIds } from "../archive";
+import { normalizeEstimatedMinutes } from "../estimate";
+import { clampFocusMinutes, DEFAULT_FOCUS_MINUTES, getFocusSessionDeadline, getRunningFocusSession } from "../focus";
+import { newId } from "../ids";
+import { createIndexedDbAdapter, isIndexedDbAvailable } from "../indexedDbStorage";
+import type { MarkdownTask } from "../markdown";
+import type { SyncedState } from "../operations";
+import { getNextDueAt } from "../recurrence";
+import { demoteTodo, moveSubTask, promoteSubTask, type SubTaskDestination } from "../restructure";
+import {
+  backupRawState,
+  createInitialState,
+  type LoadResult,
+  localStorageAdapter,
+  type StorageAdapter,
+  type StorageError,
+  toSaveError,
+} from "../storage";
+import { collectSubTaskTreeIds } from "../subTaskTree";
+import { mergeRemoteState, stampChanges } from "../sync";
+import { normalizeTags } from "../tags";
+import { type ImportMode, mergeImportedState, replaceWithImportedState } from "../transfer";
+import type {
+  AppSettings,
+  AppState,
+  NewSubTaskDraft,
+  NewTodoDraft,
+  NewTodoFields,
+  Priority,
+  RecurrenceRule,
+  SubTask,
+  SubTaskSource,
+  Todo,
+} from "../types";
+import { useServerSync } from "./useServerSync";
 
 const SAVE_DEBOUNCE_MS = 200;
+const HISTORY_LIMIT = 50;
+const AUTO_ARCHIVE_INTERVAL_MS = 60 * 60 * 1000;
+const FOCUS_CHECK_INTERVAL_MS = 1000;
 
-function newId(): string {
-  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
-    return crypto.randomUUID();
+type History = {
+  past: AppState[];
+  present: AppState;
+  future: AppState[];
+};
+
+export type UndoNotice = {
+  id: number;
+  message: string;
+};
+
+// parentSubTaskId を指定すると、その子タスクの下に入れ子で追加する。
+function appendSubTasks(
+  prev: AppState,
+  todoId: string,
+  parentSubTaskId: string | undefined,
+  items: NewSubTaskDraft[],
+  source: SubTaskSource,
+): AppState {
+  const todo = prev.todos[todoId];
+  const parentSubTask = parentSubTaskId ? prev.subTasks[parentSubTaskId] : undefined;
+  if (!todo || (parentSubTaskId && parentSubTask?.parentId !== todoId)) {
+    return prev;
+  }
+
+  const nextSubTasks = { ...prev.subTasks };
+  const appendedSubTaskIds: string[] = [];
+
+  for (const item of items) {
+    const id = newId();
+    const createdAt = new Date().toISOString();
+    const subTask: SubTask = {
+      id,
+      parentId: todoId,
+      parentSubTaskId,
+      text: item.text.trim(),
+      completed: false,
+      createdAt,
+      updatedAt: createdAt,
+      source,
+      estimatedMinutes: item.estimatedMinutes,
+      subTaskIds: [],
+    };
+    nextSubTasks[id] = subTask;
+    appendedSubTaskIds.push(id);
+  }
+
+  if (parentSubTask) {
+    nextSubTasks[parentSubTask.id] = {
+      ...parentSubTask,
+      subTaskIds: [...parentSubTask.subTaskIds, ...appendedSubTaskIds],
+    };
+    return {
+      ...prev,
+      subTasks: nextSubTasks,
+    };
+  }
+
+  const nextTodo: Todo = {
+    ...todo,
+    subTaskIds: [...todo.subTaskIds, ...appendedSubTaskIds],
+  };
+
+  return {
+    ...prev,
+    subTasks: nextSubTasks,
+    todos: {
+      ...prev.todos,
+      [todoId]: nextTodo,
+    },
+  };
+}
+
+// 子タスクの木を新しいIDで未完了のまま複製する。繰り返しTODOの次回分を作るときに使う。
+function cloneSubTaskTree(
+  subTasks: AppState["subTasks"],
+  subTaskIds: string[],
+  todoId: string,
+  parentSubTaskId: string | undefined,
+  createdAt: string,
+  into: AppState["subTasks"],
+): string[] {
+  const clonedIds: string[] = [];
+  for (const subTaskId of subTaskIds) {
+    const subTask = subTasks[subTaskId];
+    if (!subTask) {
+      continue;
+    }
+    const id = newId();
+    into[id] = {
+      ...subTask,
+      id,
+      parentId: todoId,
+      parentSubTaskId,
+      completed: false,
+      completedAt: undefined,
+      createdAt,
+      updatedAt: createdAt,
+      subTaskIds: cloneSubTaskTree(subTasks, subTask.subTaskIds, todoId, id, createdAt, into),
+    };
+    clonedIds.push(id);
+  }
+  return clonedIds;
+}
+
+// Markdownから読み込んだ入れ子の項目を子タスクにする。チェック済みの行は読み込んだ時点で完了にする。
+function buildMarkdownSubTasks(
+  tasks: MarkdownTask[],
+  todoId: string,
+  parentSubTaskId: string | undefined,
+  createdAt: string,
+  into: AppState["subTasks"],
+): string[] {
+  const builtIds: string[] = [];
+  for (const task of tasks) {
+    const id = newId();
+    into[id] = {
+      id,
+      parentId: todoId,
+      parentSubTaskId,
+      text: task.text,
+      completed: task.completed,
+      completedAt: task.completed ? createdAt : undefined,
+      createdAt,
+      updatedAt: createdAt,
+      source: "manual",
+      subTaskIds: buildMarkdownSubTasks(task.children, todoId, id, createdAt, into),
+    };
+    builtIds.push(id);
   }
-  return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+  return builtIds;
+}
+
+type LoadFailure = Extract<LoadResult, { ok: false }>;
+
+// 集中の記録は今のものを残し、子タスクの移動などで付け替えた対象だけを履歴の時点に戻す。
+function restoreFocusTargets(current: AppState["focusSessions"], snapshot: AppState["focusSessions"]) {
+  let result = current;
+  for (const session of Object.values(current)) {
+    const restored = snapshot[session.id];
+    if (!restored || (restored.targetId === session.targetId && restored.todoId === session.todoId)) {
+      continue;
+    }
+    if (result === current) {
+      result = { ...current };
+    }
+    result[session.id] = { ...session, targetId: restored.targetId, todoId: restored.todoId };
+  }
+  return result;
+}
+
+// 取り消し・やり直しで戻すのはTODO・子タスクの編集だけ。折りたたみ・設定・集中の記録は今のものを残す。
+function restoreSnapshot(current: AppState, snapshot: AppState): AppState {
+  return stampChanges(current, {
+    ...snapshot,
+    collapsedTodoIds: current.collapsedTodoIds.filter((id) => Boolean(snapshot.todos[id])),
+    focusSessions: restoreFocusTargets(current.focusSessions, snapshot.focusSessions),
+    settings: current.settings,
+    syncMeta: current.syncMeta,
+  });
+}
+
+function createStorageAdapter(): StorageAdapter {
+  return isIndexedDbAvailable() ? createIndexedDbAdapter() : localStorageAdapter;
 }
 
 export function useAppState() {
-  const [state, setState] = useState<AppState>(() => loadState());
+  const [adapter] = useState<StorageAdapter>(() => createStorageAdapter());
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [history, setHistory] = useState<History>(() => ({
+    past: [],
+    present: createInitialState(),
+    future: [],
+  }));
+  const [loadFailure, setLoadFailure] = useState<LoadFailure | null>(null);
+  const [saveError, setSaveError] = useState<StorageError | null>(null);
+  const [undoNotice, setUndoNotice] = useState<UndoNotice | null>(null);
+  const undoNoticeIdRef = useRef(0);
+  // 他タブから受け取ってマージした状態。その変更は送り元のタブが操作として記録しているので、ここでは記録しない。
+  const remoteStatesRef = useRef(new WeakSet<AppState>());
+  const state = history.present;
 
   useEffect(() => {
+    let cancelled = false;
+    void adapter.load().then((result) => {
+      if (cancelled) {
+        return;
+      }
+      if (result.ok) {
+        setHistory({ past: [], present: result.state, future: [] });
+      } else {
+        setLoadFailure(result);
+      }
+      setIsLoaded(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [adapter]);
+
+  useEffect(() => {
+    // 読み込みが終わるまで、または失敗している間は、保存済みのデータを空の状態で上書きしない。
+    if (!isLoaded || loadFailure) {
+      return;
+    }
+
     const timer = window.setTimeout(() => {
-      saveState(state);
+      adapter.save(state).then(
+        () => setSaveError(null),
+        (error: unknown) => setSaveError(toSaveError(error)),
+      );
     }, SAVE_DEBOUNCE_MS);
 
     return () => {
       window.clearTimeout(timer);
     };
-  }, [state]);
+  }, [adapter, state, isLoaded, loadFailure]);
+
+  // 他タブの保存を受け取り、エンティティ単位でマージする。
+  // マージ後は取り消し履歴が他タブの変更を巻き戻さないように履歴を捨てる。
+  useEffect(() => {
+    if (!isLoaded || loadFailure) {
+      return;
+    }
+
+    return adapter.subscribe((remote) => {
+      setHistory((prev) => {
+        const merged = mergeRemoteState(prev.present, remote);
+        if (merged === prev.present) {
+          return prev;
+        }
+        remoteStatesRef.current.add(merged);
+        return { past: [], present: merged, future: [] };
+      });
+    });
+  }, [adapter, isLoaded, loadFailure]);
+
+  // 同期サーバーの内容で差し替える。取り消し履歴は他端末の変更を巻き戻さないように捨てる。
+  const replaceSyncedState = useCallback((expected: AppState, synced: SyncedState) => {
+    setHistory((prev) => {
+      if (prev.present !== expected) {
+        return prev;
+      }
+      return {
+        past: [],
+        present: {
+          ...prev.present,
+          ...synced,
+          // 設定は端末ごとのものなので、設定の更新日時は手元のものを残す。
+          syncMeta: { ...synced.syncMeta, settingsUpdatedAt: prev.present.syncMeta.settingsUpdatedAt },
+          collapsedTodoIds: prev.present.collapsedTodoIds.filter((id) => Boolean(synced.todos[id])),
+        },
+        future: [],
+      };
+    });
+  }, []);
+
+  const isRemoteState = useCallback((target: AppState) => remoteStatesRef.current.has(target), []);
+
+  const syncStatus = useServerSync({
+    state,
+    isRemoteState,
+    enabled: isLoaded && !loadFailure,
+    serverUrl: state.settings.syncServerUrl.trim(),
+    token: state.settings.syncToken.trim(),
+    replaceSyncedState,
+  });
+
+  const discardUnreadableState = useCallback(() => {
+    if (!loadFailure) {
+      return;
+    }
+    backupRawState(loadFailure.raw);
+    setLoadFailure(null);
+    setHistory({ past: [], present: createInitialState(), future: [] });
+  }, [loadFailure]);
+
+  // 全ての変更はここを通して履歴に積む。recipeが prev をそのまま返したら変更なしとみなす。
+  // 変更箇所には stampChanges でタブ間マージ用の更新日時を付ける。
+  const commit = useCallback((recipe: (prev: AppState) => AppState) => {
+    setHistory((prev) => {
+      const next = recipe(prev.present);
+      if (next === prev.present) {
+        return prev;
+      }
+      return {
+        past: [...prev.past, prev.present].slice(-HISTORY_LIMIT),
+        present: stampChanges(prev.present, next),
+        future: [],
+      };
+    });
+  }, []);
+
+  // 完了から設定日数が経ったTODOを、起動時と1時間ごとにアーカイブする。
+  // 利用者の操作ではないので取り消し履歴には積まず、やり直しも消さない。
+  // 履歴の各時点にも同じアーカイブを当てて、元に戻したときにアーカイブ済みのTODOが一覧へ戻らないようにする。
+  const archiveAfterDays = state.settings.archiveAfterDays;
+  useEffect(() => {
+    if (!isLoaded || loadFailure || archiveAfterDays <= 0) {
+      return;
+    }
+
+    const archiveExpired = () => {
+      setHistory((prev) => {
+        const todoIds = selectArchivableTodoIds(prev.present, archiveAfterDays);
+        if (todoIds.length === 0) {
+          return prev;
+        }
+        const archivedAt = new Date().toISOString();
+        // 履歴の時点でまだ完了していなかったTODOはそのまま残す。
+        const archive = (snapshot: AppState) =>
+          archiveTodos(snapshot, todoIds.filter((id) => snapshot.todos[id]?.completed), archivedAt);
+        return {
+          past: prev.past.map(archive),
+          present: stampChanges(prev.present, archive(prev.present)),
+          future: prev.future.map(archive),
+        };
+      });
+    };
+    const timeout = window.setTimeout(archiveExpired, 0);
+    const interval = window.setInterval(archiveExpired, AUTO_ARCHIVE_INTERVAL_MS);
+    return () => {
+      window.clearTimeout(timeout);
+      window.clearInterval(interval);
+    };
+  }, [isLoaded, loadFailure, archiveAfterDays]);
+
+  // 取り消し履歴に積まない変更。TODO・子タスクの編集ではない折りたたみ・設定・集中の記録に使う。
+  const updatePresent = useCallback((recipe: (prev: AppState) => AppState) => {
+    setHistory((prev) => {
+      const next = recipe(prev.present);
+      if (next === prev.present) {
+        return prev;
+      }
+      return { ...prev, present: stampChanges(prev.present, next) };
+    });
+  }, []);
+
+  // 集中の記録は時間の経過で変わるものなので、取り消し履歴には積まない。
+  const updateFocusSessions = useCallback(
+    (recipe: (sessions: AppState["focusSessions"], prev: AppState) => AppState["focusSessions"]) => {
+      updatePresent((prev) => {
+        const focusSessions = recipe(prev.focusSessions, prev);
+        return focusSessions === prev.focusSessions ? prev : { ...prev, focusSessions };
+      });
+    },
+    [updatePresent],
+  );
+
+  // 計測中のセッションは、予定の時間が経ったらその時刻で、対象が消えたら今の時刻で終える。
+  // 閉じている間に時間が過ぎていても、読み込み直したときに予定の終了時刻で記録される。
+  const runningFocusSession = useMemo(() => getRunningFocusSession(state.focusSessions), [state.focusSessions]);
+  useEffect(() => {
+    if (!isLoaded || loadFailure || !runningFocusSession) {
+      return;
+    }
+
+    const finishIfDue = () => {
+      updateFocusSessions((sessions, prev) => {
+        const session = sessions[runningFocusSession.id];
+        if (!session || session.endedAt) {
+          return sessions;
+        }
+        const deadline = getFocusSessionDeadline(session);
+        const targetExists = Boolean(prev.todos[session.targetId] || prev.subTasks[session.targetId]);
+        if (targetExists && Date.now() < deadline) {
+          return sessions;
+        }
+        const endedAt = new Date(Math.min(Date.now(), deadline)).toISOString();
+        return { ...sessions, [session.id]: { ...session, endedAt } };
+      });
+    };
+    finishIfDue();
+    const interval = window.setInterval(finishIfDue, FOCUS_CHECK_INTERVAL_MS);
+    return () => {
+      window.clearInterval(interval);
+    };
+  }, [isLoaded, loadFailure, runningFocusSession, updateFocusSessions]);
 
-  const createTodo = useCallback((text: string): string => {
+  // 他の対象で計測中なら、そちらを今の時刻で終えてから始める。
+  const startFocusSession = useCallback((targetId: string, plannedMinutes: number = DEFAULT_FOCUS_MINUTES) => {
+    const id = newId();
+    const startedAt = new Date().toISOString();
+
+    updateFocusSessions((sessions, prev) => {
+      const subTask = prev.subTasks[targetId];
+      const todo = prev.todos[subTask?.parentId ?? targetId];
+      if (!todo) {
+        return sessions;
+      }
+      const next = { ...sessions };
+      for (const session of Object.values(sessions)) {
+        if (!session.endedAt) {
+          next[session.id] = { ...session, endedAt: startedAt };
+        }
+      }
+      next[id] = {
+        id,
+        targetId,
+        todoId: todo.id,
+        targetText: (subTask ?? todo).text,
+        startedAt,
+        plannedMinutes: clampFocusMinutes(plannedMinutes),
+        updatedAt: startedAt,
+      };
+      return next;
+    });
+  }, [updateFocusSessions]);
+
+  // 途中でやめたセッションも、そこまでの時間を記録として残す。
+  const stopFocusSession = useCallback(() => {
+    const endedAt = new Date().toISOString();
+    updateFocusSessions((sessions) => {
+      const running = getRunningFocusSession(sessions);
+      return running ? { ...sessions, [running.id]: { ...running, endedAt } } : sessions;
+    });
+  }, [updateFocusSessions]);
+
+  const notifyUndoable = useCallback((message: string) => {
+    undoNoticeIdRef.current += 1;
+    setUndoNotice({ id: undoNoticeIdRef.current, message });
+  }, []);
+
+  const dismissUndoNotice = useCallback(() => {
+    setUndoNotice(null);
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((prev) => {
+      const previous = prev.past[prev.past.length - 1];
+      if (!previous) {
+        return prev;
+      }
+      return {
+        past: prev.past.slice(0, -1),
+        present: restoreSnapshot(prev.present, previous),
+        future: [prev.present, ...prev.future],
+      };
+    });
+    setUndoNotice(null);
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((prev) => {
+      const [next, ...rest] = prev.future;
+      if (!next) {
+        return prev;
+      }
+      return {
+        past: [...prev.past, prev.present].slice(-HISTORY_LIMIT),
+        present: restoreSnapshot(prev.present, next),
+        future: rest,
+      };
+    });
+  }, []);
+
+  const createTodo = useCallback((text: string, fields: NewTodoFields = {}): string => {
     const id = newId();
     const createdAt = new Date().toISOString();
 
-    setState((prev) => ({
+    commit((prev) => ({
       ...prev,
       todos: {
         ...prev.todos,
         [id]: {
           id,
           text,
-          priority: 0,
+          priority: fields.priority ?? 0,
           completed: false,
           createdAt,
+          updatedAt: createdAt,
+          dueAt: fields.dueAt,
+          tags: normalizeTags(fields.tags ?? []),
           subTaskIds: [],
         },
       },
@@ -45,18 +521,98 @@ export function useAppState() {
     }));
 
     return id;
-  }, []);
+  }, [commit]);
+
+  // 貼り付けたメモから作った複数のTODOを、入力の順のまま先頭に並べる。取り消しは1回でまとめて戻る。
+  const createTodos = useCallback((drafts: NewTodoDraft[]): string[] => {
+    const items = drafts
+      .map((draft) => ({
+        ...draft,
+        id: newId(),
+        text: draft.text.trim(),
+        subTaskTexts: draft.subTaskTexts.map((text) => text.trim()).filter(Boolean),
+      }))
+      .filter((draft) => draft.text);
+    if (items.length === 0) {
+      return [];
+    }
+    const createdAt = new Date().toISOString();
+
+    commit((prev) => {
+      let next: AppState = {
+        ...prev,
+        todos: { ...prev.todos },
+        todoOrder: [...items.map((item) => item.id), ...prev.todoOrder],
+      };
+      for (const item of items) {
+        next.todos[item.id] = {
+          id: item.id,
+          text: item.text,
+          priority: item.priority ?? 0,
+          completed: false,
+          createdAt,
+          updatedAt: createdAt,
+          dueAt: item.dueAt,
+          tags: normalizeTags(item.tags ?? []),
+          subTaskIds: [],
+        };
+        next = appendSubTasks(next, item.id, undefined, item.subTaskTexts.map((text) => ({ text })), "ai");
+      }
+      return next;
+    });
+    notifyUndoable(`${items.length}件のTODOを追加しました`);
+
+    return items.map((item) => item.id);
+  }, [commit, notifyUndoable]);
+
+  // 未完了のTODOは先頭に、完了済みは一覧の末尾に、ファイルの順のまま追加する。
+  const importMarkdownTasks = useCallback((tasks: MarkdownTask[]) => {
+    const createdAt = new Date().toISOString();
+
+    commit((prev) => {
+      const nextTodos = { ...prev.todos };
+      const nextSubTasks = { ...prev.subTasks };
+      const openIds: string[] = [];
+      const completedIds: string[] = [];
+
+      for (const task of tasks) {
+        const id = newId();
+        nextTodos[id] = {
+          id,
+          text: task.text,
+          priority: task.priority,
+          completed: task.completed,
+          completedAt: task.completed ? createdAt : undefined,
+          createdAt,
+          updatedAt: createdAt,
+          tags: [],
+          subTaskIds: buildMarkdownSubTasks(task.children, id, undefined, createdAt, nextSubTasks),
+        };
+        (task.completed ? completedIds : openIds).push(id);
+      }
+
+      return {
+        ...prev,
+        todos: nextTodos,
+        subTasks: nextSubTasks,
+        todoOrder: [...openIds, ...prev.todoOrder, ...completedIds],
+      };
+    });
+    notifyUndoable(`Markdownから${tasks.length}件のTODOを読み込みました`);
+  }, [commit, notifyUndoable]);
 
   const toggleTodoCompleted = useCallback((todoId: string) => {
-    setState((prev) => {
+    commit((prev) => {
       const todo = prev.todos[todoId];
       if (!todo) {
         return prev;
       }
 
       const nextCompleted = !todo.completed;
+      const completedAt = nextCompleted ? new Date().toISOString() : undefined;
       let nextTodoOrder = prev.todoOrder;
       let nextSubTasks = prev.subTasks;
+      let nextTodos = prev.todos;
 
       if (nextCompleted) {
         const withoutTarget = prev.todoOrder.filter((id) => id !== todoId);
@@ -70,10 +626,10 @@ export function useAppState() {
         });
         nextTodoOrder = [...uncheckedIds, todoId, ...checkedIds];
 
-        // 親が完了したら配下の子タスクも完了扱いにする。
+        // 親が完了したら配下の子タスクも（入れ子を含めて）完了扱いにする。
         if (todo.subTaskIds.length > 0) {
           nextSubTasks = { ...prev.subTasks };
-          for (const subTaskId of todo.subTaskIds) {
+          for (const subTaskId of collectSubTaskTreeIds(prev.subTasks, todo.subTaskIds)) {
             const subTask = nextSubTasks[subTaskId];
             if (!subTask || subTask.completed) {
               continue;
@@ -81,28 +637,62 @@ export function useAppState() {
             nextSubTasks[subTaskId] = {
               ...subTask,
               completed: true,
+              completedAt,
             };
           }
         }
+
+        // 繰り返しTODOは、元の位置に次回分を未完了の子タスクごと作り直す。
+        if (todo.recurrence) {
+          const nextId = newId();
+          const createdAt = new Date().toISOString();
+          nextSubTasks = nextSubTasks === prev.subTasks ? { ...prev.subTasks } : nextSubTasks;
+          nextTodos = {
+            ...prev.todos,
+            [nextId]: {
+              ...todo,
+              id: nextId,
+              completed: false,
+              completedAt: undefined,
+              createdAt,
+              updatedAt: createdAt,
+              dueAt: getNextDueAt(todo),
+              subTaskIds: cloneSubTaskTree(prev.subTasks, todo.subTaskIds, nextId, undefined, createdAt, nextSubTasks),
+            },
+          };
+          const insertAt = prev.todoOrder
+            .slice(0, prev.todoOrder.indexOf(todoId))
+            .filter((id) => uncheckedIds.includes(id)).length;
+          nextTodoOrder = [
+            ...uncheckedIds.slice(0, insertAt),
+            nextId,
+            ...uncheckedIds.slice(insertAt),
+            todoId,
+            ...checkedIds,
+          ];
+        }
       }
 
       return {
         ...prev,
         todos: {
-          ...prev.todos,
+          ...nextTodos,
           [todoId]: {
             ...todo,
             completed: nextCompleted,
+            completedAt,
+            // 完了した回は履歴として残し、繰り返しは次回分だけが持つ。
+            recurrence: nextCompleted ? undefined : todo.recurrence,
           },
         },
         subTasks: nextSubTasks,
         todoOrder: nextTodoOrder,
       };
     });
-  }, []);
+  }, [commit]);
 
   const deleteTodo = useCallback((todoId: string) => {
-    setState((prev) => {
+    commit((prev) => {
       const todo = prev.todos[todoId];
       if (!todo) {
         return prev;
@@ -112,7 +702,7 @@ export function useAppState() {
       delete nextTodos[todoId];
 
       const nextSubTasks = { ...prev.subTasks };
-      for (const subTaskId of todo.subTaskIds) {
+      for (const subTaskId of collectSubTaskTreeIds(prev.subTasks, todo.subTaskIds)) {
         delete nextSubTasks[subTaskId];
       }
 
@@ -124,75 +714,68 @@ export function useAppState() {
         collapsedTodoIds: prev.collapsedTodoIds.filter((id) => id !== todoId),
       };
     });
-  }, []);
+    notifyUndoable("TODOを削除しました");
+  }, [commit, notifyUndoable]);
 
   const addGeneratedSubTasks = useCallback(
-    (todoId: string, items: Array<{ text: string }>) => {
+    (todoId: string, items: NewSubTaskDraft[], parentSubTaskId?: string) => {
       if (items.length === 0) {
         return;
       }
 
-      setState((prev) => {
-        const todo = prev.todos[todoId];
-        if (!todo) {
-          return prev;
-        }
-
-        const nextSubTasks = { ...prev.subTasks };
-        const appendedSubTaskIds: string[] = [];
-
-        for (const item of items) {
-          const id = newId();
-          const createdAt = new Date().toISOString();
-          const subTask: SubTask = {
-            id,
-            parentId: todoId,
-            text: item.text.trim(),
-            completed: false,
-            createdAt,
-            source: "ai",
-          };
-          nextSubTasks[id] = subTask;
-          appendedSubTaskIds.push(id);
-        }
+      commit((prev) => appendSubTasks(prev, todoId, parentSubTaskId, items, "ai"));
+    },
+    [commit],
+  );
 
-        const nextTodo: Todo = {
-          ...todo,
-          subTaskIds: [...todo.subTaskIds, ...appendedSubTaskIds],
-        };
+  const addManualSubTask = useCallback(
+    (todoId: string, text: string, parentSubTaskId?: string) => {
+      if (!text.trim()) {
+        return;
+      }
 
-        return {
-          ...prev,
-          subTasks: nextSubTasks,
-          todos: {
-            ...prev.todos,
-            [todoId]: nextTodo,
-          },
-        };
-      });
+      commit((prev) => appendSubTasks(prev, todoId, parentSubTaskId, [{ text }], "manual"));
     },
-    [],
+    [commit],
   );
 
   const toggleSubTaskCompleted = useCallback((subTaskId: string) => {
-    setState((prev) => {
+    commit((prev) => {
       const target = prev.subTasks[subTaskId];
       if (!target) {
         return prev;
       }
 
+      const nextCompleted = !target.completed;
+      const completedAt = nextCompleted ? new Date().toISOString() : undefined;
+      const nextSubTasks = { ...prev.subTasks };
+      nextSubTasks[subTaskId] = {
+        ...target,
+        completed: nextCompleted,
+        completedAt,
+      };
+
+      // 親TODOと同じく、完了にしたら配下の子タスクも完了扱いにする。
+      if (nextCompleted) {
+        for (const childId of collectSubTaskTreeIds(prev.subTasks, target.subTaskIds)) {
+          const child = nextSubTasks[childId];
+          if (!child || child.completed) {
+            continue;
+          }
+          nextSubTasks[childId] = {
+            ...child,
+            completed: true,
+            completedAt,
+          };
+        }
+      }
+
       return {
         ...prev,
-        subTasks: {
-          ...prev.subTasks,
-          [subTaskId]: {
-            ...target,
-            completed: !target.completed,
-          },
-        },
+        subTasks: nextSubTasks,
       };
     });
-  }, []);
+  }, [commit]);
 
   const updateTodoText = useCallback((todoId: string, text: string) => {
     const nextText = text.trim();
@@ -200,7 +783,7 @@ export function useAppState() {
       return;
     }
 
-    setState((prev) => {
+    commit((prev) => {
       const todo = prev.todos[todoId];
       if (!todo) {
         return prev;
@@ -217,7 +800,87 @@ export function useAppState() {
         },
       };
     });
-  }, []);
+  }, [commit]);
+
+  const updateTodoDueAt = useCallback((todoId: string, dueAt: string | undefined) => {
+    commit((prev) => {
+      const todo = prev.todos[todoId];
+      if (!todo) {
+        return prev;
+      }
+
+      return {
+        ...prev,
+        todos: {
+          ...prev.todos,
+          [todoId]: {
+            ...todo,
+            dueAt,
+          },
+        },
+      };
+    });
+  }, [commit]);
+
+  const updateTodoTags = useCallback((todoId: string, tags: string[]) => {
+    commit((prev) => {
+      const todo = prev.todos[todoId];
+      if (!todo) {
+        return prev;
+      }
+
+      return {
+        ...prev,
+        todos: {
+          ...prev.todos,
+          [todoId]: {
+            ...todo,
+            tags: normalizeTags(tags),
+          },
+        },
+      };
+    });
+  }, [commit]);
+
+  const updateTodoRecurrence = useCallback((todoId: string, recurrence: RecurrenceRule | undefined) => {
+    commit((prev) => {
+      const todo = prev.todos[todoId];
+      if (!todo) {
+        return prev;
+      }
+
+      return {
+        ...prev,
+        todos: {
+          ...prev.todos,
+          [todoId]: {
+            ...todo,
+            recurrence,
+          },
+        },
+      };
+    });
+  }, [commit]);
+
+  const toggleTodoLocked = useCallback((todoId: string) => {
+    commit((prev) => {
+      const todo = prev.todos[todoId];
+      if (!todo) {
+        return prev;
+      }
+
+      return {
+        ...prev,
+        todos: {
+          ...prev.todos,
+          [todoId]: {
+            ...todo,
+            locked: todo.locked ? undefined : true,
+          },
+        },
+      };
+    });
+  }, [commit]);
 
   const updateSubTaskText = useCallback((subTaskId: string, text: string) => {
     const nextText = text.trim();
@@ -225,7 +888,7 @@ export function useAppState() {
       return;
     }
 
-    setState((prev) => {
+    commit((prev) => {
       const target = prev.subTasks[subTaskId];
       if (!target) {
         return prev;
@@ -242,17 +905,53 @@ export function useAppState() {
         },
       };
     });
-  }, []);
+  }, [commit]);
+
+  // minutes が undefined なら見積もりを消す。
+  const updateSubTaskEstimate = useCallback((subTaskId: string, minutes: number | undefined) => {
+    commit((prev) => {
+      const target = prev.subTasks[subTaskId];
+      const estimatedMinutes = normalizeEstimatedMinutes(minutes);
+      if (!target || target.estimatedMinutes === estimatedMinutes) {
+        return prev;
+      }
+
+      return {
+        ...prev,
+        subTasks: {
+          ...prev.subTasks,
+          [subTaskId]: {
+            ...target,
+            estimatedMinutes,
+          },
+        },
+      };
+    });
+  }, [commit]);
 
   const deleteSubTask = useCallback((subTaskId: string) => {
-    setState((prev) => {
+    commit((prev) => {
       const target = prev.subTasks[subTaskId];
       if (!target) {
         return prev;
       }
 
       const nextSubTasks = { ...prev.subTasks };
-      delete nextSubTasks[subTaskId];
+      for (const id of collectSubTaskTreeIds(prev.subTasks, [subTaskId])) {
+        delete nextSubTasks[id];
+      }
+
+      const parentSubTask = target.parentSubTaskId ? nextSubTasks[target.parentSubTaskId] : undefined;
+      if (parentSubTask) {
+        nextSubTasks[parentSubTask.id] = {
+          ...parentSubTask,
+          subTaskIds: parentSubTask.subTaskIds.filter((id) => id !== subTaskId),
+        };
+        return {
+          ...prev,
+          subTasks: nextSubTasks,
+        };
+      }
 
       const parent = prev.todos[target.parentId];
       if (!parent) {
@@ -274,30 +973,63 @@ export function useAppState() {
         },
       };
     });
-  }, []);
+    notifyUndoable("子タスクを削除しました");
+  }, [commit, notifyUndoable]);
+
+  const moveSubTaskTo = useCallback((subTaskId: string, destination: SubTaskDestination, index: number) => {
+    commit((prev) => moveSubTask(prev, subTaskId, destination, index));
+  }, [commit]);
+
+  // 作ったTODOのIDを返す。
+  const promoteSubTaskToTodo = useCallback((subTaskId: string): string => {
+    const todoId = newId();
+    commit((prev) => promoteSubTask(prev, subTaskId, todoId, new Date().toISOString()));
+    notifyUndoable("子タスクをTODOにしました");
+    return todoId;
+  }, [commit, notifyUndoable]);
 
+  // 作った子タスクのIDを返す。
+  const demoteTodoToSubTask = useCallback((todoId: string, destinationTodoId: string): string => {
+    const subTaskId = newId();
+    commit((prev) => demoteTodo(prev, todoId, destinationTodoId, subTaskId, new Date().toISOString()));
+    notifyUndoable("TODOを子タスクにしました");
+    return subTaskId;
+  }, [commit, notifyUndoable]);
+
+  // 設定は取り消しの対象にしない。消したAPIキーが元に戻すで復活しないようにする。
   const updateSettings = useCallback((settings: Partial<AppSettings>) => {
-    setState((prev) => ({
+    updatePresent((prev) => ({
       ...prev,
       settings: {
         ...prev.settings,
         ...settings,
       },
     }));
-  }, []);
+  }, [updatePresent]);
 
   const clearSettings = useCallback(() => {
-    setState((prev) => ({
+    updatePresent((prev) => ({
       ...prev,
       settings: {
+        ...prev.settings,
         openaiApiKey: "",
-        model: prev.settings.model,
+        encryptedApiKey: undefined,
       },
     }));
-  }, []);
+  }, [updatePresent]);
+
+  const importState = useCallback(
+    (imported: AppState, mode: ImportMode) => {
+      commit((prev) =>
+        mode === "merge" ? mergeImportedState(prev, imported) : replaceWithImportedState(prev, imported),
+      );
+      notifyUndoable(mode === "merge" ? "データを統合しました" : "データを置き換えました");
+    },
+    [commit, notifyUndoable],
+  );
 
   const reorderTodos = useCallback((orderedTodoIds: string[], priorities?: Record<string, Priority>) => {
-    setState((prev) => {
+    commit((prev) => {
       const existing = new Set(prev.todoOrder);
       const dedupedValid = orderedTodoIds.filter((id, index) => existing.has(id) && orderedTodoIds.indexOf(id) === index);
       const remaining = prev.todoOrder.filter((id) => !dedupedValid.includes(id));
@@ -320,14 +1052,16 @@ export function useAppState() {
         todoOrder: [...dedupedValid, ...remaining],
       };
     });
-  }, []);
+    notifyUndoable(priorities ? "並び順と優先度を更新しました" : "並び順を更新しました");
+  }, [commit, notifyUndoable]);
 
-  const moveTodoToIndex = useCallback((draggedTodoId: string, nextIndex: number) => {
+  // nextPriority を渡すと、移動と同時に優先度も変える（優先度別表示で別の見出しへドロップしたとき）。
+  const moveTodoToIndex = useCallback((draggedTodoId: string, nextIndex: number, nextPriority?: Priority) => {
     if (nextIndex < 0) {
       return;
     }
 
-    setState((prev) => {
+    commit((prev) => {
       const fromIndex = prev.todoOrder.indexOf(draggedTodoId);
       if (fromIndex < 0 || nextIndex > prev.todoOrder.length) {
         return prev;
@@ -338,15 +1072,45 @@ export function useAppState() {
       const adjustedIndex = fromIndex < nextIndex ? nextIndex - 1 : nextIndex;
       nextOrder.splice(adjustedIndex, 0, draggedTodoId);
 
+      const draggedTodo = prev.todos[draggedTodoId];
+      if (nextPriority === undefined || !draggedTodo || draggedTodo.priority === nextPriority) {
+        return {
+          ...prev,
+          todoOrder: nextOrder,
+        };
+      }
+
       return {
         ...prev,
+        todos: {
+          ...prev.todos,
+          [draggedTodoId]: { ...draggedTodo, priority: nextPriority },
+        },
         todoOrder: nextOrder,
       };
     });
-  }, []);
+  }, [commit]);
 
+  const updateTodoPriority = useCallback((todoId: string, priority: Priority) => {
+    commit((prev) => {
+      const todo = prev.todos[todoId];
+      if (!todo || todo.priority === priority) {
+        return prev;
+      }
+
+      return {
+        ...prev,
+        todos: {
+          ...prev.todos,
+          [todoId]: { ...todo, priority },
+        },
+      };
+    });
+  }, [commit]);
+
+  // 折りたたみは表示の状態なので、取り消しの対象にしない。
   const toggleTodoCollapsed = useCallback((todoId: string) => {
-    setState((prev) => {
+    updatePresent((prev) => {
       if (!prev.todos[todoId]) {
         return prev;
       }
@@ -359,28 +1123,96 @@ export function useAppState() {
           : [...prev.collapsedTodoIds, todoId],
       };
     });
-  }, []);
+  }, [updatePresent]);
+
+  const archiveCompletedTodos = useCallback(() => {
+    // 何もアーカイブしないときは、取り消しの案内も出さない。
+    if (selectArchivableTodoIds(state).length === 0) {
+      return;
+    }
+    commit((prev) => archiveTodos(prev, selectArchivableTodoIds(prev), new Date().toISOString()));
+    notifyUndoable("完了済みのTODOをアーカイブしました");
+  }, [commit, notifyUndoable, state]);
+
+  // アーカイブから戻したTODOは未完了にして一覧の先頭に置く（完了のままだとすぐ自動アーカイブされるため）。
+  const restoreArchivedTodo = useCallback((todoId: string) => {
+    commit((prev) => {
+      const todo = prev.todos[todoId];
+      if (!todo?.archivedAt) {
+        return prev;
+      }
+
+      return {
+        ...prev,
+        todos: {
+          ...prev.todos,
+          [todoId]: {
+            ...todo,
+            archivedAt: undefined,
+            completed: false,
+            completedAt: undefined,
+          },
+        },
+        todoOrder: [todoId, ...prev.todoOrder.filter((id) => id !== todoId)],
+      };
+    });
+  }, [commit]);
 
   const orderedTodos = useMemo(
-    () => state.todoOrder.map((id) => state.todos[id]).filter((todo): todo is Todo => Boolean(todo)),
+    () =>
+      state.todoOrder
+        .map((id) => state.todos[id])
+        .filter((todo): todo is Todo => Boolean(todo) && !todo.archivedAt),
     [state.todoOrder, state.todos],
   );
 
+  const archivedTodos = useMemo(() => getArchivedTodos(state.todos), [state.todos]);
+
   return {
     state,
+    isLoaded,
+    saveError,
+    syncStatus,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undo,
+    redo,
+    undoNotice,
+    dismissUndoNotice,
+    loadFailure,
+    discardUnreadableState,
     orderedTodos,
+    archivedTodos,
     createTodo,
+    createTodos,
     toggleTodoCompleted,
     deleteTodo,
     updateTodoText,
+    updateTodoDueAt,
+    updateTodoTags,
+    updateTodoRecurrence,
+    toggleTodoLocked,
     updateSubTaskText,
+    updateSubTaskEstimate,
     addGeneratedSubTasks,
+    addManualSubTask,
     toggleSubTaskCompleted,
     deleteSubTask,
+    moveSubTaskTo,
+    promoteSubTaskToTodo,
+    demoteTodoToSubTask,
     updateSettings,
     clearSettings,
+    importState,
+    importMarkdownTasks,
     reorderTodos,
     moveTodoToIndex,
+    updateTodoPriority,
     toggleTodoCollapsed,
+    archiveCompletedTodos,
+    restoreArchivedTodo,
+    runningFocusSession,
+    startFocusSession,
+    stopFocusSession,
   };
 }
@@ -0,0 +1,229 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { newId } from "../ids";
+import {
+  applyOperations,
+  createEmptySyncedState,
+  diffOperations,
+  pickSyncedState,
+  type SyncedState,
+  type SyncOperation,
+} from "../operations";
+import {
+  loadSyncClientRecord,
+  pullOperations,
+  pushOperations,
+  SyncError,
+  updateSyncClientRecord,
+} from "../syncClient";
+import type { AppState } from "../types";
+
+const SYNC_INTERVAL_MS = 15 * 1000;
+// 編集が続いている間は送らず、落ち着いてからまとめて送る。
+const PUSH_DEBOUNCE_MS = 1000;
+
+export type SyncStatus =
+  | { kind: "disabled" }
+  | { kind: "syncing"; pendingCount: number }
+  | { kind: "synced"; pendingCount: number; syncedAt: string }
+  | { kind: "offline"; pendingCount: number }
+  | { kind: "error"; pendingCount: number; message: string };
+
+type UseServerSyncParams = {
+  state: AppState;
+  // 他タブからマージした状態なら true。その変更は送り元のタブが記録済みなので、二重に記録しない。
+  isRemoteState: (state: AppState) => boolean;
+  enabled: boolean;
+  serverUrl: string;
+  token: string;
+  // サーバーの内容を反映した同期対象を、expected がまだ最新のときだけ差し替える。
+  replaceSyncedState: (expected: AppState, synced: SyncedState) => void;
+};
+
+// サーバーが確定した順に操作を積んだ状態。手元の表示はこれに未送信の操作を重ねたものになる。
+type ConfirmedLog = {
+  serverUrl: string;
+  state: SyncedState;
+  lastSeq: number;
+};
+
+// 最後に操作として記録した時点の状態。サーバーを切り替えたら記録し直す。
+type RecordedState = {
+  serverUrl: string;
+  state: SyncedState;
+};
+
+// キーの並びに左右されないように、オブジェクトのキーを並べ替えて文字列にする。
+function toStableJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(toStableJson).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${toStableJson(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// 表示に関わる部分だけを比べる。削除日時などの記録の違いだけでは差し替えない。
+function hasSameEntities(a: SyncedState, b: SyncedState): boolean {
+  return (
+    toStableJson([a.todos, a.subTasks, a.todoOrder, a.focusSessions]) ===
+    toStableJson([b.todos, b.subTasks, b.todoOrder, b.focusSessions])
+  );
+}
+
+export function useServerSync({
+  state,
+  isRemoteState,
+  enabled,
+  serverUrl,
+  token,
+  replaceSyncedState,
+}: UseServerSyncParams): SyncStatus {
+  const [status, setStatus] = useState<SyncStatus>({ kind: "disabled" });
+  const isActive = enabled && Boolean(serverUrl);
+  const recordedRef = useRef<RecordedState | null>(null);
+  // サーバーの内容で差し替えようとしている状態。反映されたら記録済みとして扱う。
+  const rebuiltRef = useRef<SyncedState | null>(null);
+  const confirmedRef = useRef<ConfirmedLog | null>(null);
+  const stateRef = useRef(state);
+  const isSyncingRef = useRef(false);
+
+  // 変更を操作として outbox に記録する。操作はオフラインでも溜めておき、次の同期で送る。
+  useEffect(() => {
+    stateRef.current = state;
+    if (!isActive) {
+      return;
+    }
+    const synced = pickSyncedState(state);
+    const rebuilt = rebuiltRef.current;
+    if (
+      rebuilt &&
+      synced.todos === rebuilt.todos &&
+      synced.subTasks === rebuilt.subTasks &&
+      synced.todoOrder === rebuilt.todoOrder &&
+      synced.focusSessions === rebuilt.focusSessions
+    ) {
+      rebuiltRef.current = null;
+      recordedRef.current = { serverUrl, state: synced };
+      return;
+    }
+    // outbox はタブ間で共有しているので、他タブの変更を取り込んだ分は記録済みとして扱う。
+    if (isRemoteState(state) && recordedRef.current?.serverUrl === serverUrl) {
+      recordedRef.current = { serverUrl, state: synced };
+      return;
+    }
+
+    const record = loadSyncClientRecord(serverUrl);
+    // 初めてこのサーバーと同期するときは、手元の全件を送る。
+    // 同期を止めていた間の変更は記録していないので、起動し直したあとはサーバーの内容が優先される。
+    const recorded =
+      recordedRef.current?.serverUrl === serverUrl
+        ? recordedRef.current.state
+        : record.initialized
+          ? synced
+          : createEmptySyncedState();
+    const operations = diffOperations(recorded, synced, (body) => ({
+      ...body,
+      id: newId(),
+      clientId: record.clientId,
+      at: new Date().toISOString(),
+    }) as SyncOperation);
+    recordedRef.current = { serverUrl, state: synced };
+    if (operations.length > 0 || !record.initialized) {
+      updateSyncClientRecord(serverUrl, (current) => ({
+        ...current,
+        initialized: true,
+        outbox: [...current.outbox, ...operations],
+      }));
+    }
+  }, [state, isRemoteState, isActive, serverUrl]);
+
+  const runSync = useCallback(async () => {
+    if (isSyncingRef.current) {
+      return;
+    }
+    isSyncingRef.current = true;
+    const config = { serverUrl, token };
+    const pendingCount = () => loadSyncClientRecord(serverUrl).outbox.length;
+    setStatus({ kind: "syncing", pendingCount: pendingCount() });
+
+    try {
+      const outbox = loadSyncClientRecord(serverUrl).outbox;
+      if (outbox.length > 0) {
+        await pushOperations(config, outbox);
+        const sentIds = new Set(outbox.map((operation) => operation.id));
+        updateSyncClientRecord(serverUrl, (current) => ({
+          ...current,
+          outbox: current.outbox.filter((operation) => !sentIds.has(operation.id)),
+        }));
+      }
+
+      // サーバーを切り替えたら、確定済みの記録を捨てて最初から取り込み直す。
+      const confirmed =
+        confirmedRef.current?.serverUrl === serverUrl
+          ? confirmedRef.current
+          : { serverUrl, state: createEmptySyncedState(), lastSeq: 0 };
+      const pulled = await pullOperations(config, confirmed.lastSeq);
+      // 取り込み済みの分を二重に適用しないよう、seq で絞る。
+      const fresh = pulled.operations.filter((operation) => operation.seq > confirmed.lastSeq);
+      confirmedRef.current = {
+        serverUrl,
+        state: applyOperations(confirmed.state, fresh),
+        lastSeq: Math.max(confirmed.lastSeq, pulled.lastSeq),
+      };
+
+      // 確定した状態に、まだサーバーに届いていない手元の操作を重ねたものが表示すべき状態。
+      const target = applyOperations(confirmedRef.current.state, loadSyncClientRecord(serverUrl).outbox);
+      const current = stateRef.current;
+      if (!hasSameEntities(pickSyncedState(current), target)) {
+        rebuiltRef.current = target;
+        replaceSyncedState(current, target);
+      }
+      setStatus({ kind: "synced", pendingCount: pendingCount(), syncedAt: new Date().toISOString() });
+    } catch (error) {
+      if (error instanceof SyncError && error.code === "UNREACHABLE") {
+        setStatus({ kind: "offline", pendingCount: pendingCount() });
+      } else {
+        setStatus({
+          kind: "error",
+          pendingCount: pendingCount(),
+          message: error instanceof SyncError ? error.message : "同期に失敗しました。",
+        });
+      }
+    } finally {
+      isSyncingRef.current = false;
+    }
+  }, [serverUrl, token, replaceSyncedState]);
+
+  useEffect(() => {
+    if (!isActive) {
+      return;
+    }
+    const timeout = window.setTimeout(() => void runSync(), 0);
+    const interval = window.setInterval(() => void runSync(), SYNC_INTERVAL_MS);
+    // オフラインの間に溜めた操作は、つながった時点ですぐ送る。
+    const onOnline = () => void runSync();
+    window.addEventListener("online", onOnline);
+    return () => {
+      window.clearTimeout(timeout);
+      window.clearInterval(interval);
+      window.removeEventListener("online", onOnline);
+      setStatus({ kind: "disabled" });
+    };
+  }, [isActive, runSync]);
+
+  useEffect(() => {
+    if (!isActive) {
+      return;
+    }
+    const timer = window.setTimeout(() => void runSync(), PUSH_DEBOUNCE_MS);
+    return () => {
+      window.clearTimeout(timer);
+    };
+  }, [state, isActive, runSync]);
+
+  return status;
+}
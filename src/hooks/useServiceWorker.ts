@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from "react";
+
+const SERVICE_WORKER_URL = "/sw.js";
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// 開き続けているタブでも新しい版に気づけるよう、定期的に更新を確認する。
+// 新しい版は待機させておき、利用者が「更新」を押したときだけ切り替えて読み込み直す。
+export function useServiceWorker() {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+
+  useEffect(() => {
+    // 開発サーバーではキャッシュが邪魔になるので登録しない。
+    if (!import.meta.env.PROD || !("serviceWorker" in navigator)) {
+      return;
+    }
+
+    let cancelled = false;
+    let interval: number | undefined;
+    // 初回インストール時は controller が無い。そのときは更新ではないので知らせない。
+    const hadController = Boolean(navigator.serviceWorker.controller);
+
+    const watchInstalling = (worker: ServiceWorker) => {
+      worker.addEventListener("statechange", () => {
+        if (worker.state === "installed" && navigator.serviceWorker.controller && !cancelled) {
+          setWaitingWorker(worker);
+        }
+      });
+    };
+
+    navigator.serviceWorker.register(SERVICE_WORKER_URL).then(
+      (registration) => {
+        if (cancelled) {
+          return;
+        }
+        if (registration.waiting && hadController) {
+          setWaitingWorker(registration.waiting);
+        }
+        if (registration.installing) {
+          watchInstalling(registration.installing);
+        }
+        registration.addEventListener("updatefound", () => {
+          if (registration.installing) {
+            watchInstalling(registration.installing);
+          }
+        });
+        interval = window.setInterval(() => void registration.update().catch(() => undefined), UPDATE_CHECK_INTERVAL_MS);
+      },
+      () => {
+        // 登録できなくてもオフライン対応が無いだけで、通常どおり使える。
+      },
+    );
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+    };
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    if (!waitingWorker) {
+      return;
+    }
+    navigator.serviceWorker.addEventListener("controllerchange", () => window.location.reload(), { once: true });
+    waitingWorker.postMessage({ type: "SKIP_WAITING" });
+  }, [waitingWorker]);
+
+  const dismissUpdate = useCallback(() => {
+    setWaitingWorker(null);
+  }, []);
+
+  return { isUpdateReady: waitingWorker !== null, applyUpdate, dismissUpdate };
+}
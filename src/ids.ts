@@ -0,0 +1,7 @@
+// crypto.randomUUID は安全なコンテキスト（https か localhost）でしか使えないため、LAN内のhttpでも動くよう代わりを用意する。
+export function newId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
@@ -0,0 +1,251 @@
+import {
+  backupRawState,
+  type LoadResult,
+  loadState,
+  localStorageAdapter,
+  migrateState,
+  restoreState,
+  STORAGE_KEY,
+  type StorageAdapter,
+  StorageError,
+  toSaveError,
+} from "./storage";
+import type { AppState, SubTask, Todo } from "./types";
+
+const DB_NAME = "pirido";
+const DB_VERSION = 1;
+const TODO_STORE = "todos";
+const SUB_TASK_STORE = "subTasks";
+const META_STORE = "meta";
+const META_KEY = "state";
+const CHANNEL_NAME = "pirido.app";
+
+// TODO・子タスク以外の状態は1レコードにまとめて保存する。
+type MetaRecord = Omit<AppState, "todos" | "subTasks">;
+
+type ChannelMessage = {
+  sourceId: string;
+  state: AppState;
+};
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(TODO_STORE)) {
+      db.createObjectStore(TODO_STORE, { keyPath: "id" });
+    }
+    if (!db.objectStoreNames.contains(SUB_TASK_STORE)) {
+      db.createObjectStore(SUB_TASK_STORE, { keyPath: "id" });
+    }
+    if (!db.objectStoreNames.contains(META_STORE)) {
+      db.createObjectStore(META_STORE);
+    }
+  };
+  return requestToPromise(request);
+}
+
+function toMetaRecord(state: AppState): MetaRecord {
+  return {
+    todoOrder: state.todoOrder,
+    collapsedTodoIds: state.collapsedTodoIds,
+    // 集中の記録は件数も少ないので、個別のストアにせずここに含める。
+    focusSessions: state.focusSessions,
+    settings: state.settings,
+    syncMeta: state.syncMeta,
+    schemaVersion: state.schemaVersion,
+  };
+}
+
+// 前回保存した状態と参照を比べ、変わったレコードだけを書き込む。previous がなければ全件を書き直す。
+function writeRecords<T extends Todo | SubTask>(
+  store: IDBObjectStore,
+  previous: Record<string, T> | undefined,
+  next: Record<string, T>,
+): void {
+  if (!previous) {
+    store.clear();
+  }
+  for (const [id, item] of Object.entries(next)) {
+    if (previous?.[id] !== item) {
+      store.put(item);
+    }
+  }
+  if (previous) {
+    for (const id of Object.keys(previous)) {
+      if (!next[id]) {
+        store.delete(id);
+      }
+    }
+  }
+}
+
+function hasLegacyState(): boolean {
+  try {
+    return localStorage.getItem(STORAGE_KEY) !== null;
+  } catch {
+    return false;
+  }
+}
+
+function newSourceId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+export function createIndexedDbAdapter(): StorageAdapter {
+  const sourceId = newSourceId();
+  const channel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(CHANNEL_NAME) : null;
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  let loadPromise: Promise<LoadResult> | null = null;
+  let lastSaved: AppState | undefined;
+  // 移し替え前に IndexedDB を開けなかったときは localStorage に切り替える。
+  let fallback: StorageAdapter | null = null;
+
+  const getDatabase = () => {
+    dbPromise ??= openDatabase();
+    return dbPromise;
+  };
+
+  const writeState = async (state: AppState) => {
+    const db = await getDatabase();
+    const transaction = db.transaction([TODO_STORE, SUB_TASK_STORE, META_STORE], "readwrite");
+    const done = transactionDone(transaction);
+    writeRecords(transaction.objectStore(TODO_STORE), lastSaved?.todos, state.todos);
+    writeRecords(transaction.objectStore(SUB_TASK_STORE), lastSaved?.subTasks, state.subTasks);
+    transaction.objectStore(META_STORE).put(toMetaRecord(state), META_KEY);
+    await done;
+    lastSaved = state;
+  };
+
+  // IndexedDB が空なら、従来の localStorage のデータを一度だけ移し替える。
+  const migrateFromLocalStorage = async (): Promise<LoadResult> => {
+    const legacy = loadState();
+    if (!legacy.ok) {
+      return legacy;
+    }
+
+    const raw = localStorage.getItem(STORAGE_KEY);
+    await writeState(legacy.state);
+    if (raw) {
+      localStorage.removeItem(STORAGE_KEY);
+      backupRawState(raw);
+    }
+    return legacy;
+  };
+
+  const readState = async (): Promise<LoadResult> => {
+    const db = await getDatabase();
+    const transaction = db.transaction([TODO_STORE, SUB_TASK_STORE, META_STORE], "readonly");
+    const [todos, subTasks, meta] = await Promise.all([
+      requestToPromise(transaction.objectStore(TODO_STORE).getAll() as IDBRequest<Todo[]>),
+      requestToPromise(transaction.objectStore(SUB_TASK_STORE).getAll() as IDBRequest<SubTask[]>),
+      requestToPromise(transaction.objectStore(META_STORE).get(META_KEY) as IDBRequest<MetaRecord | undefined>),
+    ]);
+
+    if (!meta) {
+      return migrateFromLocalStorage();
+    }
+
+    const raw = {
+      ...meta,
+      todos: Object.fromEntries(todos.map((todo) => [todo.id, todo])),
+      subTasks: Object.fromEntries(subTasks.map((subTask) => [subTask.id, subTask])),
+    };
+    const result = restoreState(raw, JSON.stringify(raw));
+    if (result.ok && raw.schemaVersion === result.state.schemaVersion) {
+      lastSaved = result.state;
+    }
+    return result;
+  };
+
+  // プライベートモードなどで失敗しても、移し替えが終わっていなければデータは localStorage にあるのでそちらを使う。
+  // そこでの変更は、次に IndexedDB を開けたときにまとめて移し替わる。
+  // 移し替え済みなら localStorage は空なので、空の一覧で始めずに読み込みの失敗として扱う。
+  // 失敗した Promise は覚えず、次に load したときはもう一度 IndexedDB を試す。
+  const readStateOrFallback = async (): Promise<LoadResult> => {
+    try {
+      const result = await readState();
+      fallback = null;
+      return result;
+    } catch {
+      dbPromise = null;
+      loadPromise = null;
+      if (hasLegacyState()) {
+        fallback = localStorageAdapter;
+        return localStorageAdapter.load();
+      }
+      return {
+        ok: false,
+        error: new StorageError(
+          "LOAD_FAILED",
+          "ブラウザのデータベース（IndexedDB）を開けませんでした。プライベートモードや保存領域の設定を確認して、再読み込みしてください。",
+        ),
+        raw: "",
+      };
+    }
+  };
+
+  return {
+    load: () => {
+      // StrictMode で effect が2回走っても、移し替えは1回だけにする。
+      loadPromise ??= readStateOrFallback();
+      return loadPromise;
+    },
+    save: async (state) => {
+      if (fallback) {
+        return fallback.save(state);
+      }
+      try {
+        await writeState(state);
+      } catch (error) {
+        throw toSaveError(error);
+      }
+      const message: ChannelMessage = { sourceId, state };
+      channel?.postMessage(message);
+    },
+    subscribe: (onRemoteState) => {
+      if (fallback) {
+        return fallback.subscribe(onRemoteState);
+      }
+      if (typeof BroadcastChannel === "undefined") {
+        return () => {};
+      }
+      const receiver = new BroadcastChannel(CHANNEL_NAME);
+      receiver.onmessage = (event: MessageEvent<ChannelMessage>) => {
+        if (!event.data || event.data.sourceId === sourceId) {
+          return;
+        }
+        try {
+          onRemoteState(migrateState(event.data.state));
+        } catch {
+          // 新しいバージョンのタブからの状態などは無視する。
+        }
+      };
+      return () => {
+        receiver.close();
+      };
+    },
+  };
+}
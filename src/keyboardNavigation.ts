@@ -0,0 +1,65 @@
+import { collectSubTaskTreeIds } from "./subTaskTree";
+import type { AppState, Todo } from "./types";
+
+// キーボード操作の対象。subTaskId が無ければTODO本体を指す。
+export type CursorTarget = {
+  todoId: string;
+  subTaskId?: string;
+};
+
+export function getCursorTargetId(target: CursorTarget): string {
+  return target.subTaskId ?? target.todoId;
+}
+
+// 画面に表示している順（TODO→その子タスクを上から）にカーソルの止まる位置を並べる。
+export function buildCursorTargets(
+  todos: Todo[],
+  subTasks: AppState["subTasks"],
+  isCollapsed: (todoId: string) => boolean,
+): CursorTarget[] {
+  const targets: CursorTarget[] = [];
+  for (const todo of todos) {
+    targets.push({ todoId: todo.id });
+    if (isCollapsed(todo.id)) {
+      continue;
+    }
+    for (const subTaskId of collectSubTaskTreeIds(subTasks, todo.subTaskIds)) {
+      targets.push({ todoId: todo.id, subTaskId });
+    }
+  }
+  return targets;
+}
+
+export function findCursorTarget(targets: CursorTarget[], targetId: string | null): CursorTarget | undefined {
+  return targetId ? targets.find((target) => getCursorTargetId(target) === targetId) : undefined;
+}
+
+// カーソルが無いときは、下方向なら先頭、上方向なら末尾から始める。
+export function stepCursor(targets: CursorTarget[], current: CursorTarget | undefined, delta: 1 | -1): CursorTarget | undefined {
+  if (targets.length === 0) {
+    return undefined;
+  }
+  if (!current) {
+    return delta > 0 ? targets[0] : targets[targets.length - 1];
+  }
+  const index = targets.findIndex((target) => getCursorTargetId(target) === getCursorTargetId(current));
+  const nextIndex = Math.min(targets.length - 1, Math.max(0, index + delta));
+  return targets[nextIndex];
+}
+
+// 削除で current が消えるとき、次にカーソルを置く位置。後ろに残るものを優先し、無ければ手前に戻る。
+export function findCursorAfterRemoval(
+  targets: CursorTarget[],
+  current: CursorTarget,
+  removedIds: string[],
+): CursorTarget | undefined {
+  const index = targets.findIndex((target) => getCursorTargetId(target) === getCursorTargetId(current));
+  const isRemaining = (target: CursorTarget) => !removedIds.includes(getCursorTargetId(target));
+  return (
+    targets.slice(index + 1).find(isRemaining) ??
+    targets
+      .slice(0, Math.max(index, 0))
+      .reverse()
+      .find(isRemaining)
+  );
+}
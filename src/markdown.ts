@@ -0,0 +1,118 @@
+import { StorageError } from "./storage";
+import type { AppState, Priority, Todo } from "./types";
+
+// Markdownのタスクリスト1行分。children は字下げされた子タスク。
+export type MarkdownTask = {
+  text: string;
+  completed: boolean;
+  priority: Priority;
+  children: MarkdownTask[];
+};
+
+const INDENT = "  ";
+// タブは半角4文字分の字下げとして数える。
+const TAB_WIDTH = 4;
+
+// 「- [ ] 本文」「* [x] 本文」「1. [ ] 本文」。チェックボックスの無い箇条書きも未完了のタスクとして読む。
+const LIST_ITEM_PATTERN = /^([ \t]*)(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+// 末尾の「(P2)」「（P2）」「!2」を優先度として読む。「(P0)」は優先度なしを表す。
+const PRIORITY_SUFFIX_PATTERN = /\s*(?:[(（]P([0-5])[)）]|!([1-5]))\s*$/;
+// 子タスクには優先度が無いので、「!2」は本文のまま残し、書き出しで付けた「(P0)」だけを取り除く。
+const SUB_TASK_SUFFIX_PATTERN = /\s*[(（]P([0-5])[)）]\s*$/;
+
+function getSuffixPattern(isSubTask: boolean): RegExp {
+  return isSubTask ? SUB_TASK_SUFFIX_PATTERN : PRIORITY_SUFFIX_PATTERN;
+}
+
+// 本文自体が「(P2)」などで終わるときは、読み込みで優先度と取り違えないよう優先度なしでも「(P0)」を付ける。
+function formatTaskLine(depth: number, completed: boolean, text: string, priority: Priority = 0): string {
+  const body = text.replace(/\s+/g, " ").trim();
+  const suffix = priority > 0 || getSuffixPattern(depth > 0).test(body) ? ` (P${priority})` : "";
+  return `${INDENT.repeat(depth)}- [${completed ? "x" : " "}] ${body}${suffix}`;
+}
+
+function appendSubTaskLines(subTasks: AppState["subTasks"], subTaskIds: string[], depth: number, lines: string[]) {
+  for (const subTaskId of subTaskIds) {
+    const subTask = subTasks[subTaskId];
+    if (!subTask) {
+      continue;
+    }
+    lines.push(formatTaskLine(depth, subTask.completed, subTask.text));
+    appendSubTaskLines(subTasks, subTask.subTaskIds, depth + 1, lines);
+  }
+}
+
+export function todoToMarkdown(todo: Todo, subTasks: AppState["subTasks"]): string {
+  const lines = [formatTaskLine(0, todo.completed, todo.text, todo.priority)];
+  appendSubTaskLines(subTasks, todo.subTaskIds, 1, lines);
+  return lines.join("\n");
+}
+
+// 一覧に出ているTODOを並び順のまま書き出す。アーカイブ済みは含めない。
+export function stateToMarkdown(state: AppState): string {
+  const todos = state.todoOrder
+    .map((todoId) => state.todos[todoId])
+    .filter((todo): todo is Todo => Boolean(todo) && !todo.archivedAt);
+  return `${todos.map((todo) => todoToMarkdown(todo, state.subTasks)).join("\n")}\n`;
+}
+
+function pad2(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+export function buildMarkdownFileName(now: Date = new Date()): string {
+  return `pirido-${now.getFullYear()}${pad2(now.getMonth() + 1)}${pad2(now.getDate())}.md`;
+}
+
+function measureIndent(whitespace: string): number {
+  let width = 0;
+  for (const char of whitespace) {
+    width += char === "\t" ? TAB_WIDTH : 1;
+  }
+  return width;
+}
+
+// 箇条書き以外の行（見出しや本文）は読み飛ばす。一番浅い字下げの項目がTODO、それより深いものが子タスクになる。
+export function parseMarkdownTasks(markdown: string): MarkdownTask[] {
+  const roots: MarkdownTask[] = [];
+  const stack: Array<{ indent: number; task: MarkdownTask }> = [];
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const found = LIST_ITEM_PATTERN.exec(line);
+    if (!found) {
+      continue;
+    }
+    const [, whitespace, checkbox, rawText] = found;
+    const indent = measureIndent(whitespace);
+    // 字下げは浅い順に積んでいるので、一番下より深ければ子タスクになる。
+    const isSubTask = stack.length > 0 && stack[0].indent < indent;
+    const suffix = getSuffixPattern(isSubTask).exec(rawText);
+    const text = (suffix ? rawText.slice(0, suffix.index) : rawText).trim();
+    if (!text) {
+      continue;
+    }
+
+    const task: MarkdownTask = {
+      text,
+      completed: checkbox === "x" || checkbox === "X",
+      priority: suffix && !isSubTask ? (Number(suffix[1] ?? suffix[2]) as Priority) : 0,
+      children: [],
+    };
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.task.children.push(task);
+    } else {
+      roots.push(task);
+    }
+    stack.push({ indent, task });
+  }
+
+  if (roots.length === 0) {
+    throw new StorageError("INVALID_MARKDOWN", "Markdownのタスクリスト（- [ ] で始まる行）が見つかりませんでした。");
+  }
+  return roots;
+}
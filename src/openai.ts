@@ -1,14 +1,24 @@
+import { type AiProviderConfig, AppError, requestStructuredJson } from "./aiProviders";
+import { toLocalIsoString } from "./dueDate";
+import { MAX_ESTIMATED_MINUTES, normalizeEstimatedMinutes } from "./estimate";
+import type { NewSubTaskDraft, Priority } from "./types";
+
+export { AppError } from "./aiProviders";
+
 export type GenerateSubTasksParams = {
-  apiKey: string;
-  model: string;
+  provider: AiProviderConfig;
   parentTodoText: string;
+  // 子タスクを分解するときの上位タスクの本文（親TODOから直接の親まで）。
+  ancestorTexts?: string[];
   existingSubTaskTexts: string[];
+  signal?: AbortSignal;
 };
 
 export type RankTodosParams = {
-  apiKey: string;
-  model: string;
-  todos: Array<{ id: string; text: string }>;
+  provider: AiProviderConfig;
+  todos: Array<{ id: string; text: string; dueAt?: string }>;
+  now?: Date;
+  signal?: AbortSignal;
 };
 
 export type RankTodosResult = {
@@ -16,14 +26,40 @@ export type RankTodosResult = {
   priorities: Record<string, 1 | 2 | 3 | 4 | 5>;
 };
 
+export type SplitBrainDumpParams = {
+  provider: AiProviderConfig;
+  // 会議メモや箇条書きなど、貼り付けられたままの文章。
+  text: string;
+  now?: Date;
+  signal?: AbortSignal;
+};
+
+export type BrainDumpTodo = {
+  text: string;
+  // 0 は本文から判断できなかったもの。
+  priority: Priority;
+  subTaskTexts: string[];
+};
+
 type RawSubTask = {
   text: unknown;
+  estimatedMinutes: unknown;
 };
 
 type RawSubTaskResponse = {
   subtasks?: RawSubTask[];
 };
 
+type RawBrainDumpTodo = {
+  text: unknown;
+  priority: unknown;
+  subtasks: unknown;
+};
+
+type RawBrainDumpResponse = {
+  todos?: unknown;
+};
+
 type RawTodoRank = {
   id: unknown;
   priority: unknown;
@@ -33,15 +69,6 @@ type RawTodoOrderResponse = {
   ordered?: unknown;
 };
 
-export class AppError extends Error {
-  readonly code: "MISSING_API_KEY" | "OPENAI_API_ERROR" | "INVALID_JSON";
-
-  constructor(code: AppError["code"], message: string) {
-    super(message);
-    this.code = code;
-  }
-}
-
 function clampRankPriority(value: unknown): 1 | 2 | 3 | 4 | 5 {
   const parsed = Number(value);
   if (!Number.isInteger(parsed)) {
@@ -56,103 +83,7 @@ function clampRankPriority(value: unknown): 1 | 2 | 3 | 4 | 5 {
   return parsed as 1 | 2 | 3 | 4 | 5;
 }
 
-function normalizeApiKey(apiKey: string): string {
-  const normalized = apiKey.trim();
-  if (!normalized) {
-    throw new AppError("MISSING_API_KEY", "OpenAI APIキーが設定されていません。");
-  }
-  return normalized;
-}
-
-function toJsonText(payload: unknown): string {
-  if (!payload || typeof payload !== "object") {
-    throw new AppError("INVALID_JSON", "AI応答が空です。");
-  }
-
-  const candidate = payload as { output_text?: unknown; output?: unknown };
-  if (typeof candidate.output_text === "string" && candidate.output_text.trim()) {
-    return candidate.output_text;
-  }
-
-  if (Array.isArray(candidate.output)) {
-    for (const outputItem of candidate.output) {
-      if (
-        outputItem &&
-        typeof outputItem === "object" &&
-        "content" in outputItem &&
-        Array.isArray((outputItem as { content?: unknown }).content)
-      ) {
-        for (const contentItem of (outputItem as { content: unknown[] }).content) {
-          if (
-            contentItem &&
-            typeof contentItem === "object" &&
-            "text" in contentItem &&
-            typeof (contentItem as { text?: unknown }).text === "string"
-          ) {
-            const text = (contentItem as { text: string }).text;
-            if (text.trim()) {
-              return text;
-            }
-          }
-        }
-      }
-    }
-  }
-
-  throw new AppError("INVALID_JSON", "AI応答のJSONを読み取れませんでした。");
-}
-
-async function callResponsesApi(params: {
-  apiKey: string;
-  model: string;
-  systemPrompt: string;
-  userPrompt: string;
-  schemaName: string;
-  schema: Record<string, unknown>;
-}): Promise<unknown> {
-  const response = await fetch("https://api.openai.com/v1/responses", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${params.apiKey}`,
-    },
-    body: JSON.stringify({
-      model: params.model.trim(),
-      input: [
-        { role: "system", content: params.systemPrompt },
-        { role: "user", content: params.userPrompt },
-      ],
-      max_output_tokens: 800,
-      text: {
-        format: {
-          type: "json_schema",
-          name: params.schemaName,
-          strict: true,
-          schema: params.schema,
-        },
-      },
-    }),
-  });
-
-  if (!response.ok) {
-    let detail = "";
-    try {
-      detail = await response.text();
-    } catch {
-      detail = "";
-    }
-    throw new AppError("OPENAI_API_ERROR", `OpenAI APIエラー: ${response.status}${detail ? ` ${detail}` : ""}`);
-  }
-
-  try {
-    return await response.json();
-  } catch {
-    throw new AppError("INVALID_JSON", "OpenAI APIレスポンスがJSONではありません。");
-  }
-}
-
-export async function generateSubTasks(params: GenerateSubTasksParams): Promise<Array<{ text: string }>> {
-  const apiKey = normalizeApiKey(params.apiKey);
+export async function generateSubTasks(params: GenerateSubTasksParams): Promise<NewSubTaskDraft[]> {
   const existingTextSet = new Set(params.existingSubTaskTexts.map((text) => text.trim()).filter(Boolean));
 
   const systemPrompt = [
@@ -160,22 +91,25 @@ export async function generateSubTasks(params: GenerateSubTasksParams): Promise<
     "親TODOを、実行可能な子タスクに分解してください。",
     "不必要に細かく分割せず、実行に十分な粒度で提案してください。",
     "必ずJSONのみ返してください。",
-    '形式: {"subtasks":[{"text":"..."}]}',
+    '形式: {"subtasks":[{"text":"...","estimatedMinutes":30}]}',
     "subtasks件数は0-4件。",
+    "estimatedMinutes には、その子タスクを1人で終えるのにかかる作業時間の見積もりを分で入れる。",
     "既存子タスクと完全一致するtextは出さない。",
+    "上位タスクが与えられた場合は、その文脈の中で親TODOを分解してください。",
   ].join("\n");
 
+  const ancestorTexts = params.ancestorTexts ?? [];
   const userPrompt = [
+    ...(ancestorTexts.length > 0 ? [`上位タスク: ${ancestorTexts.join(" > ")}`] : []),
     `親TODO: ${params.parentTodoText}`,
     `既存子タスク: ${existingTextSet.size > 0 ? JSON.stringify(Array.from(existingTextSet)) : "[]"}`,
   ].join("\n");
 
-  const payload = await callResponsesApi({
-    apiKey,
-    model: params.model,
+  const jsonText = await requestStructuredJson(params.provider, {
     systemPrompt,
     userPrompt,
     schemaName: "subtasks_response",
+    signal: params.signal,
     schema: {
       type: "object",
       additionalProperties: false,
@@ -189,8 +123,9 @@ export async function generateSubTasks(params: GenerateSubTasksParams): Promise<
             additionalProperties: false,
             properties: {
               text: { type: "string", minLength: 1 },
+              estimatedMinutes: { type: "integer", minimum: 1, maximum: MAX_ESTIMATED_MINUTES },
             },
-            required: ["text"],
+            required: ["text", "estimatedMinutes"],
           },
         },
       },
@@ -200,7 +135,7 @@ export async function generateSubTasks(params: GenerateSubTasksParams): Promise<
 
   let modelJson: RawSubTaskResponse;
   try {
-    modelJson = JSON.parse(toJsonText(payload)) as RawSubTaskResponse;
+    modelJson = JSON.parse(jsonText) as RawSubTaskResponse;
   } catch {
     throw new AppError("INVALID_JSON", "AI応答JSONの解析に失敗しました。");
   }
@@ -209,7 +144,7 @@ export async function generateSubTasks(params: GenerateSubTasksParams): Promise<
     throw new AppError("INVALID_JSON", "AI応答にsubtasks配列がありません。");
   }
 
-  const newResults: Array<{ text: string }> = [];
+  const newResults: NewSubTaskDraft[] = [];
   const seen = new Set<string>();
 
   for (const item of modelJson.subtasks) {
@@ -221,15 +156,13 @@ export async function generateSubTasks(params: GenerateSubTasksParams): Promise<
       continue;
     }
     seen.add(text);
-    newResults.push({ text });
+    newResults.push({ text, estimatedMinutes: normalizeEstimatedMinutes(item.estimatedMinutes) });
   }
 
   return newResults.slice(0, 4);
 }
 
 export async function rankTodosByAi(params: RankTodosParams): Promise<RankTodosResult> {
-  const apiKey = normalizeApiKey(params.apiKey);
-
   if (params.todos.length <= 1) {
     const single = params.todos[0];
     return {
@@ -248,20 +181,32 @@ export async function rankTodosByAi(params: RankTodosParams): Promise<RankTodosR
     "3：普通（今週中／遅れても致命的ではないが早めが良い）",
     "4：低め（今月中／空いた時間で対応）",
     "5：いつか（期限なし／気が向いたとき・余裕があるとき）",
+    "各タスクのdueは期限日時です（nullは期限なし）。現在日時との差から緊急度を判断してください。",
+    "期限を過ぎているタスクは原則priority 1にしてください。",
+    "dueがないタスクは本文から緊急度を推測してください。",
     "priorityは重複しても構いません。重要そうなものとそうでないものの差をはっきり付けてください。",
     "必ずJSONのみ返してください。",
     '形式: {"ordered":[{"id":"id1","priority":1}]}',
     "入力で与えられたIDだけを使い、重複なしで返してください。",
   ].join("\n");
 
-  const userPrompt = `親TODO一覧: ${JSON.stringify(params.todos)}`;
+  const now = params.now ?? new Date();
+  const userPrompt = [
+    `現在日時: ${toLocalIsoString(now)}`,
+    `親TODO一覧: ${JSON.stringify(
+      params.todos.map((todo) => ({
+        id: todo.id,
+        text: todo.text,
+        due: todo.dueAt ? toLocalIsoString(new Date(todo.dueAt)) : null,
+      })),
+    )}`,
+  ].join("\n");
 
-  const payload = await callResponsesApi({
-    apiKey,
-    model: params.model,
+  const jsonText = await requestStructuredJson(params.provider, {
     systemPrompt,
     userPrompt,
     schemaName: "todo_order_response",
+    signal: params.signal,
     schema: {
       type: "object",
       additionalProperties: false,
@@ -286,7 +231,7 @@ export async function rankTodosByAi(params: RankTodosParams): Promise<RankTodosR
 
   let modelJson: RawTodoOrderResponse;
   try {
-    modelJson = JSON.parse(toJsonText(payload)) as RawTodoOrderResponse;
+    modelJson = JSON.parse(jsonText) as RawTodoOrderResponse;
   } catch {
     throw new AppError("INVALID_JSON", "AI応答JSONの解析に失敗しました。");
   }
@@ -317,3 +262,101 @@ export async function rankTodosByAi(params: RankTodosParams): Promise<RankTodosR
     priorities,
   };
 }
+
+const MAX_BRAIN_DUMP_TODOS = 30;
+const MAX_BRAIN_DUMP_SUBTASKS = 6;
+const BRAIN_DUMP_MAX_OUTPUT_TOKENS = 4000;
+
+export async function splitBrainDump(params: SplitBrainDumpParams): Promise<BrainDumpTodo[]> {
+  const systemPrompt = [
+    "あなたはTODO整理のアシスタントです。",
+    "貼り付けられたメモから、やるべきことを親TODOとして抜き出してください。",
+    "1つの親TODOに複数の手順がある場合だけ、手順を子タスクにしてください。",
+    "決定事項や感想など、行動を伴わない文はTODOにしないでください。",
+    "textは元のメモの言語で、短い命令形にしてください。",
+    "priorityは1-5で、1が最優先です。メモから緊急度が判断できないときは0にしてください。",
+    "必ずJSONのみ返してください。",
+    '形式: {"todos":[{"text":"...","priority":0,"subtasks":[{"text":"..."}]}]}',
+    `todos件数は0-${MAX_BRAIN_DUMP_TODOS}件、subtasks件数は各0-${MAX_BRAIN_DUMP_SUBTASKS}件。`,
+  ].join("\n");
+
+  const now = params.now ?? new Date();
+  const userPrompt = [`現在日時: ${toLocalIsoString(now)}`, "メモ:", params.text].join("\n");
+
+  const jsonText = await requestStructuredJson(params.provider, {
+    systemPrompt,
+    userPrompt,
+    schemaName: "brain_dump_response",
+    maxOutputTokens: BRAIN_DUMP_MAX_OUTPUT_TOKENS,
+    signal: params.signal,
+    schema: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        todos: {
+          type: "array",
+          minItems: 0,
+          maxItems: MAX_BRAIN_DUMP_TODOS,
+          items: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              text: { type: "string", minLength: 1 },
+              priority: { type: "integer", minimum: 0, maximum: 5 },
+              subtasks: {
+                type: "array",
+                minItems: 0,
+                maxItems: MAX_BRAIN_DUMP_SUBTASKS,
+                items: {
+                  type: "object",
+                  additionalProperties: false,
+                  properties: {
+                    text: { type: "string", minLength: 1 },
+                  },
+                  required: ["text"],
+                },
+              },
+            },
+            required: ["text", "priority", "subtasks"],
+          },
+        },
+      },
+      required: ["todos"],
+    },
+  });
+
+  let modelJson: RawBrainDumpResponse;
+  try {
+    modelJson = JSON.parse(jsonText) as RawBrainDumpResponse;
+  } catch {
+    throw new AppError("INVALID_JSON", "AI応答JSONの解析に失敗しました。");
+  }
+
+  if (!Array.isArray(modelJson.todos)) {
+    throw new AppError("INVALID_JSON", "AI応答にtodos配列がありません。");
+  }
+
+  const results: BrainDumpTodo[] = [];
+  for (const item of modelJson.todos as RawBrainDumpTodo[]) {
+    if (!item || typeof item !== "object") {
+      continue;
+    }
+    const text = typeof item.text === "string" ? item.text.trim() : "";
+    if (!text) {
+      continue;
+    }
+    const priority = Number(item.priority);
+    const subTaskTexts = Array.isArray(item.subtasks)
+      ? (item.subtasks as RawSubTask[])
+          .map((subTask) => (subTask && typeof subTask.text === "string" ? subTask.text.trim() : ""))
+          .filter(Boolean)
+      : [];
+    results.push({
+      text,
+      priority: Number.isInteger(priority) && priority >= 1 && priority <= 5 ? (priority as Priority) : 0,
+      subTaskTexts: [...new Set(subTaskTexts)].slice(0, MAX_BRAIN_DUMP_SUBTASKS),
+    });
+  }
+
+  return results.slice(0, MAX_BRAIN_DUMP_TODOS);
+}
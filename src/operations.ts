@@ -0,0 +1,200 @@
+import { createInitialState } from "./storage";
+import { reconcileChildLists } from "./sync";
+import type { AppState, FocusSession, SubTask, Todo } from "./types";
+
+// TODO・子タスク・集中の記録は丸ごと置き換え、並び順は「どのTODOの後ろに置くか」で表す。
+export type SyncOperationBody =
+  | { kind: "putTodo"; todo: Todo }
+  | { kind: "putSubTask"; subTask: SubTask }
+  | { kind: "putFocusSession"; session: FocusSession }
+  | { kind: "delete"; entityId: string }
+  // afterId が null なら先頭へ。afterId のTODOが無ければ先頭に置く。
+  | { kind: "moveTodo"; todoId: string; afterId: string | null };
+
+// 同期サーバーに送る変更の単位。サーバーが付けた順に全員が同じ操作を適用するので、同時に並び替えても最後は同じ並びになる。
+export type SyncOperation = SyncOperationBody & {
+  id: string;
+  clientId: string;
+  // 記録した日時。削除日時などの記録に使い、適用順には使わない。
+  at: string;
+};
+
+// サーバーで同期する部分。折りたたみや設定は端末ごとのものなので含めない。
+export type SyncedState = Pick<AppState, "todos" | "subTasks" | "todoOrder" | "focusSessions" | "syncMeta">;
+
+export function pickSyncedState(state: AppState): SyncedState {
+  return {
+    todos: state.todos,
+    subTasks: state.subTasks,
+    todoOrder: state.todoOrder,
+    focusSessions: state.focusSessions,
+    syncMeta: state.syncMeta,
+  };
+}
+
+export function createEmptySyncedState(): SyncedState {
+  return pickSyncedState(createInitialState());
+}
+
+const isListed = (todo: Todo | undefined) => Boolean(todo) && !todo?.archivedAt;
+
+function moveAfter(order: string[], todoId: string, afterId: string | null): string[] {
+  const without = order.filter((id) => id !== todoId);
+  const anchorIndex = afterId ? without.indexOf(afterId) : -1;
+  return [...without.slice(0, anchorIndex + 1), todoId, ...without.slice(anchorIndex + 1)];
+}
+
+function applyOperation<T extends SyncedState>(state: T, operation: SyncOperation): T {
+  switch (operation.kind) {
+    case "putTodo": {
+      const { todo } = operation;
+      const todos = { ...state.todos, [todo.id]: todo };
+      const deletedAt = { ...state.syncMeta.deletedAt };
+      delete deletedAt[todo.id];
+      // 新しく一覧に出るTODOは、作成時と同じく先頭に置く。アーカイブしたものは並び順から外す。
+      let todoOrder = state.todoOrder;
+      if (!isListed(todo)) {
+        todoOrder = todoOrder.filter((id) => id !== todo.id);
+      } else if (!todoOrder.includes(todo.id)) {
+        todoOrder = [todo.id, ...todoOrder];
+      }
+      return { ...state, todos, todoOrder, syncMeta: { ...state.syncMeta, deletedAt } };
+    }
+    case "putSubTask": {
+      const { subTask } = operation;
+      const deletedAt = { ...state.syncMeta.deletedAt };
+      delete deletedAt[subTask.id];
+      return {
+        ...state,
+        subTasks: { ...state.subTasks, [subTask.id]: subTask },
+        syncMeta: { ...state.syncMeta, deletedAt },
+      };
+    }
+    case "putFocusSession": {
+      const { session } = operation;
+      const deletedAt = { ...state.syncMeta.deletedAt };
+      delete deletedAt[session.id];
+      return {
+        ...state,
+        focusSessions: { ...state.focusSessions, [session.id]: session },
+        syncMeta: { ...state.syncMeta, deletedAt },
+      };
+    }
+    case "delete": {
+      const { entityId } = operation;
+      if (!state.todos[entityId] && !state.subTasks[entityId] && !state.focusSessions[entityId]) {
+        return state;
+      }
+      const todos = { ...state.todos };
+      const subTasks = { ...state.subTasks };
+      const focusSessions = { ...state.focusSessions };
+      delete todos[entityId];
+      delete subTasks[entityId];
+      delete focusSessions[entityId];
+      return {
+        ...state,
+        todos,
+        subTasks,
+        focusSessions,
+        todoOrder: state.todoOrder.filter((id) => id !== entityId),
+        syncMeta: { ...state.syncMeta, deletedAt: { ...state.syncMeta.deletedAt, [entityId]: operation.at } },
+      };
+    }
+    case "moveTodo": {
+      if (!isListed(state.todos[operation.todoId])) {
+        return state;
+      }
+      // 他タブとのマージで、この並びが古いものとして捨てられないようにする。
+      const todoOrderUpdatedAt =
+        operation.at > state.syncMeta.todoOrderUpdatedAt ? operation.at : state.syncMeta.todoOrderUpdatedAt;
+      return {
+        ...state,
+        todoOrder: moveAfter(state.todoOrder, operation.todoId, operation.afterId),
+        syncMeta: { ...state.syncMeta, todoOrderUpdatedAt },
+      };
+    }
+  }
+}
+
+// 操作を順に適用する。最後に親子のリストを整え、どの順で届いても矛盾した木にならないようにする。
+export function applyOperations<T extends SyncedState>(state: T, operations: SyncOperation[]): T {
+  if (operations.length === 0) {
+    return state;
+  }
+  const applied = operations.reduce(applyOperation, state);
+  return { ...applied, ...reconcileChildLists(applied.todos, applied.subTasks) };
+}
+
+// 並びを保ったまま残せる一番長い部分列（他の項目を動かすだけで next になる項目）を求める。
+function findStableIds(working: string[], next: string[]): Set<string> {
+  const positions = new Map(next.map((id, index) => [id, index]));
+  const indices = working.map((id) => positions.get(id)).filter((index): index is number => index !== undefined);
+  // 最長増加部分列。tails[k] は長さ k+1 の列の末尾として最小の位置。
+  const tails: number[] = [];
+  const tailIndices: number[] = [];
+  const previous: number[] = [];
+  indices.forEach((value, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (tails[mid] < value) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    tails[low] = value;
+    tailIndices[low] = i;
+    previous[i] = low > 0 ? tailIndices[low - 1] : -1;
+  });
+  const stable = new Set<string>();
+  for (let i = tailIndices[tails.length - 1] ?? -1; i >= 0; i = previous[i]) {
+    stable.add(next[indices[i]]);
+  }
+  return stable;
+}
+
+// 前回記録した状態との差分を操作にする。useAppState の更新はイミュータブルなので、参照が変わったものだけを見る。
+// 並び順は、動かさずに済む項目を除いたものだけ「直前の項目の後ろに置く」操作にする。
+// 動かしたTODOだけが操作になるので、他の端末が同時に別のTODOを動かしても両方の並び替えが残る。
+export function diffOperations(
+  prev: SyncedState,
+  next: SyncedState,
+  createOperation: (body: SyncOperationBody) => SyncOperation,
+): SyncOperation[] {
+  const operations: SyncOperation[] = [];
+
+  for (const [id, todo] of Object.entries(next.todos)) {
+    if (prev.todos[id] !== todo) {
+      operations.push(createOperation({ kind: "putTodo", todo }));
+    }
+  }
+  for (const [id, subTask] of Object.entries(next.subTasks)) {
+    if (prev.subTasks[id] !== subTask) {
+      operations.push(createOperation({ kind: "putSubTask", subTask }));
+    }
+  }
+  for (const [id, session] of Object.entries(next.focusSessions)) {
+    if (prev.focusSessions[id] !== session) {
+      operations.push(createOperation({ kind: "putFocusSession", session }));
+    }
+  }
+  for (const id of [...Object.keys(prev.todos), ...Object.keys(prev.subTasks), ...Object.keys(prev.focusSessions)]) {
+    if (!next.todos[id] && !next.subTasks[id] && !next.focusSessions[id]) {
+      operations.push(createOperation({ kind: "delete", entityId: id }));
+    }
+  }
+
+  if (prev.todoOrder !== next.todoOrder || operations.length > 0) {
+    const working = applyOperations(prev, operations).todoOrder;
+    const stableIds = findStableIds(working, next.todoOrder);
+    next.todoOrder.forEach((todoId, index) => {
+      if (!stableIds.has(todoId)) {
+        operations.push(createOperation({ kind: "moveTodo", todoId, afterId: index > 0 ? next.todoOrder[index - 1] : null }));
+      }
+    });
+  }
+
+  return operations;
+}
@@ -0,0 +1,73 @@
+import { getTodoRemainingEstimate } from "./estimate";
+import type { AppState, Todo } from "./types";
+
+export type PlannedTodo = {
+  todo: Todo;
+  minutes: number;
+  // 期限が今日中（期限切れを含む）のもの。
+  isDueToday: boolean;
+};
+
+export type DayPlan = {
+  availableMinutes: number;
+  planned: PlannedTodo[];
+  plannedMinutes: number;
+  // 見積もりはあるが、使える時間に収まらなかったもの。
+  overflow: PlannedTodo[];
+  // 見積もりの無い作業が残っていて、時間を計算できないもの。
+  unestimated: Todo[];
+  dueTodayMinutes: number;
+  // 今日が期限のTODOだけで使える時間を超えている。
+  isOverbooked: boolean;
+};
+
+function getEndOfDay(now: Date): number {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end.getTime();
+}
+
+// todos は並び順（todoOrder）のまま渡す。上から順に、使える時間に収まるものを今日の予定に入れる。
+// 収まらないTODOは飛ばして、その下の短いTODOで残りの時間を埋める。
+export function planDay(
+  todos: Todo[],
+  subTasks: AppState["subTasks"],
+  availableMinutes: number,
+  now: Date = new Date(),
+): DayPlan {
+  const endOfDay = getEndOfDay(now);
+  const plan: DayPlan = {
+    availableMinutes,
+    planned: [],
+    plannedMinutes: 0,
+    overflow: [],
+    unestimated: [],
+    dueTodayMinutes: 0,
+    isOverbooked: false,
+  };
+
+  for (const todo of todos) {
+    if (todo.completed || todo.archivedAt) {
+      continue;
+    }
+    const remaining = getTodoRemainingEstimate(todo, subTasks);
+    if (remaining.unestimatedCount > 0) {
+      plan.unestimated.push(todo);
+      continue;
+    }
+    const dueTime = todo.dueAt ? Date.parse(todo.dueAt) : Number.NaN;
+    const entry: PlannedTodo = { todo, minutes: remaining.minutes, isDueToday: dueTime <= endOfDay };
+    if (entry.isDueToday) {
+      plan.dueTodayMinutes += entry.minutes;
+    }
+    if (plan.plannedMinutes + entry.minutes <= availableMinutes) {
+      plan.planned.push(entry);
+      plan.plannedMinutes += entry.minutes;
+    } else {
+      plan.overflow.push(entry);
+    }
+  }
+
+  plan.isOverbooked = plan.dueTodayMinutes > availableMinutes;
+  return plan;
+}
@@ -0,0 +1,33 @@
+import type { Priority, Todo } from "./types";
+
+// 優先度の目安。AIに渡している判定基準と同じ言葉を使う。
+export const PRIORITY_LABELS: Record<Priority, string> = {
+  0: "未設定",
+  1: "今すぐ",
+  2: "かなり急ぎ",
+  3: "普通",
+  4: "低め",
+  5: "いつか",
+};
+
+// 優先度別表示での見出しの並び。未設定は最後に置く。
+export const PRIORITY_SECTION_ORDER: Priority[] = [1, 2, 3, 4, 5, 0];
+
+export const PRIORITY_OPTIONS: Priority[] = [0, 1, 2, 3, 4, 5];
+
+export function formatPriority(priority: Priority): string {
+  return priority === 0 ? PRIORITY_LABELS[0] : `P${priority}`;
+}
+
+export type PrioritySection = {
+  priority: Priority;
+  todos: Todo[];
+};
+
+// 見出しごとにまとめる。各見出しの中は todoOrder の順のまま。空の見出しも返し、ドロップ先として使えるようにする。
+export function groupTodosByPriority(todos: Todo[]): PrioritySection[] {
+  return PRIORITY_SECTION_ORDER.map((priority) => ({
+    priority,
+    todos: todos.filter((todo) => todo.priority === priority),
+  }));
+}
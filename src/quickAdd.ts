@@ -0,0 +1,240 @@
+import { formatDueAt } from "./dueDate";
+import { formatPriority } from "./priority";
+import { normalizeTags } from "./tags";
+import type { NewTodoFields, Priority } from "./types";
+
+// 入力欄で見つけた指定。プレビューのチップに1つずつ表示する。
+export type QuickAddToken = {
+  kind: "priority" | "tag" | "due";
+  label: string;
+  source: string;
+};
+
+export type QuickAddResult = NewTodoFields & {
+  text: string;
+  tokens: QuickAddToken[];
+};
+
+type Match = {
+  start: number;
+  end: number;
+};
+
+// 時刻を書かなかった期限は、その日の終わりにする（繰り返しの期限と同じ）。
+const DEFAULT_DUE_HOUR = 23;
+const DEFAULT_DUE_MINUTE = 59;
+
+const JA_WEEKDAYS = ["日", "月", "火", "水", "木", "金", "土"];
+const EN_WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+// 指定はどれも行頭か空白の直後から始まるものだけを拾う。「C#」や「明日の準備」の「明日」は拾わない。
+const PRIORITY_PATTERN = /(^|\s)!([1-5])(?=\s|$)/g;
+const TAG_PATTERN = /(^|\s)#([^\s#!]+)/g;
+
+// 日本語の時刻: 15時 / 3時半 / 午後3時10分 / 15:30
+const JA_TIME = String.raw`(?:\s*(午前|午後)?(\d{1,2})(?:時(?:(半)|(\d{1,2})分)?|:(\d{2})))?`;
+// 明日 / 来週金曜 / 金曜日 / 3/15 / 3月15日 ＋ 時刻 ＋ 「まで」「までに」。
+// 「まで」が付かないときは後ろが空白か末尾のものだけにする（「明日の準備」を期限と読まない）。
+// 「3/15」の形は分数や版数とまぎれるので、「まで」が付くか入力の先頭・末尾にあるものだけを期限とする（「資料 1/2 を読む」は読まない）。
+const JA_DATE_PATTERN = new RegExp(
+  String.raw`(^|\s)(?:(今日|きょう|明日|あした|明後日|あさって)|(来週)?([日月火水木金土])曜日?|(\d{1,2})(/|月)(\d{1,2})日?)` +
+    JA_TIME +
+    String.raw`(?:(までに?)|(?=\s|$))`,
+  "g",
+);
+
+// 英語の時刻は am/pm か「:」付きのものだけ（「tomorrow 3」の 3 は件数かもしれない）。
+const EN_TIME = String.raw`(?:\s+(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)|\s+(?:at\s+)?(\d{1,2}):(\d{2}))?`;
+const EN_DATE_PATTERN = new RegExp(
+  String.raw`(^|\s)(?:(?:by|due|on)\s+)?(?:(today|tomorrow)|(next\s+)?(${EN_WEEKDAYS.join("|")}))` +
+    EN_TIME +
+    String.raw`(?=\s|$)`,
+  "i",
+);
+
+function addDays(base: Date, days: number): Date {
+  return new Date(base.getFullYear(), base.getMonth(), base.getDate() + days);
+}
+
+// 今日を含めて次にその曜日になる日。nextWeek なら月曜始まりで翌週のその曜日。
+function resolveWeekday(now: Date, weekday: number, nextWeek: boolean): Date {
+  if (!nextWeek) {
+    return addDays(now, (weekday - now.getDay() + 7) % 7);
+  }
+  const daysToNextMonday = (1 - now.getDay() + 7) % 7 || 7;
+  return addDays(now, daysToNextMonday + ((weekday + 6) % 7));
+}
+
+// 月日だけの指定は、今日より前なら来年の日付とみなす。
+function resolveMonthDay(now: Date, month: number, day: number): Date | undefined {
+  if (month < 1 || month > 12 || day < 1 || day > 31) {
+    return undefined;
+  }
+  const today = addDays(now, 0);
+  const candidate = new Date(now.getFullYear(), month - 1, day);
+  if (candidate.getMonth() !== month - 1) {
+    return undefined;
+  }
+  return candidate < today ? new Date(now.getFullYear() + 1, month - 1, day) : candidate;
+}
+
+function withTime(date: Date, hour: number | undefined, minute: number | undefined): Date | undefined {
+  if (hour === undefined) {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate(), DEFAULT_DUE_HOUR, DEFAULT_DUE_MINUTE);
+  }
+  if (hour > 23 || (minute ?? 0) > 59) {
+    return undefined;
+  }
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour, minute ?? 0);
+}
+
+function to24Hour(hour: number, meridiem: string | undefined): number {
+  if (!meridiem) {
+    return hour;
+  }
+  const isPm = meridiem === "午後" || meridiem.toLowerCase() === "pm";
+  const base = hour % 12;
+  return isPm ? base + 12 : base;
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+function resolveJapaneseDate(text: string, found: RegExpExecArray, now: Date): { match: Match; dueAt: Date } | undefined {
+  const [, lead, relative, nextWeek, weekday, month, separator, day, meridiem, hour, half, minute, colonMinute, until] =
+    found;
+  const start = found.index + lead.length;
+  const end = found.index + found[0].length;
+  if (separator === "/" && !until && text.slice(0, start).trim() !== "" && text.slice(end).trim() !== "") {
+    return undefined;
+  }
+
+  let date: Date | undefined;
+  if (relative) {
+    const offset = { 今日: 0, きょう: 0, 明日: 1, あした: 1, 明後日: 2, あさって: 2 }[relative] ?? 0;
+    date = addDays(now, offset);
+  } else if (weekday) {
+    date = resolveWeekday(now, JA_WEEKDAYS.indexOf(weekday), Boolean(nextWeek));
+  } else {
+    date = resolveMonthDay(now, Number(month), Number(day));
+  }
+  if (!date) {
+    return undefined;
+  }
+
+  const parsedHour = toNumber(hour);
+  const dueAt = withTime(
+    date,
+    parsedHour === undefined ? undefined : to24Hour(parsedHour, meridiem),
+    half ? 30 : toNumber(minute ?? colonMinute),
+  );
+  if (!dueAt) {
+    return undefined;
+  }
+  return { match: { start, end }, dueAt };
+}
+
+// 期限として読めない候補は飛ばし、最初に読めたものを使う。
+function parseJapaneseDate(text: string, now: Date): { match: Match; dueAt: Date } | undefined {
+  for (const found of text.matchAll(JA_DATE_PATTERN)) {
+    const date = resolveJapaneseDate(text, found, now);
+    if (date) {
+      return date;
+    }
+  }
+  return undefined;
+}
+
+function parseEnglishDate(text: string, now: Date): { match: Match; dueAt: Date } | undefined {
+  const found = EN_DATE_PATTERN.exec(text);
+  if (!found) {
+    return undefined;
+  }
+  const [, lead, relative, nextWeek, weekday, hour, minute, meridiem, colonHour, colonMinute] = found;
+
+  const date = relative
+    ? addDays(now, relative.toLowerCase() === "tomorrow" ? 1 : 0)
+    : resolveWeekday(now, EN_WEEKDAYS.indexOf(weekday.toLowerCase()), Boolean(nextWeek));
+
+  const parsedHour = toNumber(hour);
+  if (parsedHour !== undefined && (parsedHour < 1 || parsedHour > 12)) {
+    return undefined;
+  }
+  const dueAt = withTime(
+    date,
+    parsedHour !== undefined ? to24Hour(parsedHour, meridiem) : toNumber(colonHour),
+    toNumber(minute ?? colonMinute),
+  );
+  if (!dueAt) {
+    return undefined;
+  }
+  const start = found.index + lead.length;
+  return { match: { start, end: found.index + found[0].length }, dueAt };
+}
+
+function removeMatches(text: string, matches: Match[]): string {
+  let result = "";
+  let cursor = 0;
+  for (const match of [...matches].sort((a, b) => a.start - b.start)) {
+    if (match.start < cursor) {
+      continue;
+    }
+    result += `${text.slice(cursor, match.start)} `;
+    cursor = match.end;
+  }
+  result += text.slice(cursor);
+  return result.replace(/\s+/g, " ").trim();
+}
+
+// 「!1」〜「!5」で優先度、「#タグ」でタグ、「明日」「金曜まで」「tomorrow 3pm」などで期限を読み取り、本文からは取り除く。
+// AIは使わず、同じ入力と現在時刻からは常に同じ結果になる。
+export function parseQuickAdd(input: string, now: Date = new Date()): QuickAddResult {
+  const matches: Match[] = [];
+  const tokens: QuickAddToken[] = [];
+
+  let priority: Priority | undefined;
+  for (const found of input.matchAll(PRIORITY_PATTERN)) {
+    const start = (found.index ?? 0) + found[1].length;
+    matches.push({ start, end: start + found[0].length - found[1].length });
+    // 複数書いたときは最後のものを使う。
+    priority = Number(found[2]) as Priority;
+  }
+  if (priority !== undefined) {
+    tokens.push({ kind: "priority", label: formatPriority(priority), source: `!${priority}` });
+  }
+
+  const rawTags: string[] = [];
+  for (const found of input.matchAll(TAG_PATTERN)) {
+    const start = (found.index ?? 0) + found[1].length;
+    matches.push({ start, end: start + found[0].length - found[1].length });
+    rawTags.push(found[2]);
+  }
+  const tags = normalizeTags(rawTags);
+  for (const tag of tags) {
+    tokens.push({ kind: "tag", label: `#${tag}`, source: `#${tag}` });
+  }
+
+  // タグや優先度を除いた残りから期限を探す。先に日本語、無ければ英語。
+  // 位置がずれないよう、取り除く部分は同じ長さの空白で埋めておく。
+  let dateSearchText = input;
+  for (const match of matches) {
+    dateSearchText =
+      dateSearchText.slice(0, match.start) + " ".repeat(match.end - match.start) + dateSearchText.slice(match.end);
+  }
+  const date = parseJapaneseDate(dateSearchText, now) ?? parseEnglishDate(dateSearchText, now);
+  let dueAt: string | undefined;
+  if (date) {
+    matches.push(date.match);
+    dueAt = date.dueAt.toISOString();
+    tokens.push({ kind: "due", label: formatDueAt(dueAt), source: input.slice(date.match.start, date.match.end).trim() });
+  }
+
+  return {
+    text: removeMatches(input, matches),
+    priority,
+    tags,
+    dueAt,
+    tokens,
+  };
+}
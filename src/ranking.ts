@@ -0,0 +1,63 @@
+import type { RankTodosResult } from "./openai";
+import type { AppState, Priority } from "./types";
+
+// AIの並び替え案の1行分。位置は表示中の一覧での順番（1始まり）。
+export type RankingProposalRow = {
+  todoId: string;
+  currentPosition: number;
+  proposedPosition: number;
+  currentPriority: Priority;
+  proposedPriority: Priority;
+};
+
+export type RankingProposal = {
+  // AIが返した順番。ここに無いTODOは並び替えの対象外。
+  rankedIds: string[];
+  priorities: RankTodosResult["priorities"];
+  rows: RankingProposalRow[];
+};
+
+// rankedIds が元々占めていた位置に、rankedIds を新しい順で詰め直す。
+// 絞り込みで隠れているTODOや固定したTODOの位置と相対的な順序を保つために使う。
+export function reorderWithinSubset(order: string[], rankedIds: string[]): string[] {
+  const subset = new Set(rankedIds);
+  const queue = rankedIds.filter((id, index) => order.includes(id) && rankedIds.indexOf(id) === index);
+  let next = 0;
+  return order.map((id) => (subset.has(id) && next < queue.length ? queue[next++] : id));
+}
+
+export function buildRankingProposal(
+  state: AppState,
+  visibleIds: string[],
+  result: RankTodosResult,
+): RankingProposal {
+  // 依頼してから削除・アーカイブされたTODOは案から外す。
+  const rankedIds = result.orderedIds.filter((id) => state.todos[id] && !state.todos[id].archivedAt);
+  const visible = new Set(visibleIds);
+  const proposedVisibleIds = reorderWithinSubset(state.todoOrder, rankedIds).filter((id) => visible.has(id));
+  const rows = rankedIds.map((todoId) => ({
+    todoId,
+    currentPosition: visibleIds.indexOf(todoId) + 1,
+    proposedPosition: proposedVisibleIds.indexOf(todoId) + 1,
+    currentPriority: state.todos[todoId].priority,
+    proposedPriority: result.priorities[todoId] ?? state.todos[todoId].priority,
+  }));
+  return { rankedIds, priorities: result.priorities, rows };
+}
+
+// 採用した行だけを適用する。採用しなかったTODOは元の位置と優先度のまま残り、
+// 採用したTODOがそれ以外の空いた位置に案の順で入る。
+export function selectAcceptedRanking(
+  proposal: RankingProposal,
+  acceptedIds: string[],
+): { orderedIds: string[]; priorities: Record<string, Priority> } {
+  const accepted = new Set(acceptedIds);
+  const priorities: Record<string, Priority> = {};
+  for (const id of proposal.rankedIds) {
+    const priority = proposal.priorities[id];
+    if (accepted.has(id) && priority) {
+      priorities[id] = priority;
+    }
+  }
+  return { orderedIds: proposal.rankedIds.filter((id) => accepted.has(id)), priorities };
+}
@@ -0,0 +1,113 @@
+import type { RecurrenceRule, Todo } from "./types";
+
+export const WEEKDAY_LABELS = ["日", "月", "火", "水", "木", "金", "土"] as const;
+
+export const MAX_INTERVAL_DAYS = 365;
+
+// 期限を何度も過ぎたまま完了しても、次回が過去の日付にならないよう繰り返す上限。
+const MAX_CATCH_UP_STEPS = 1000;
+
+function addDays(date: Date, days: number): Date {
+  return new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate() + days,
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+  );
+}
+
+// 31日指定でも、その月に無い日は月末に寄せる。
+function dayInMonth(year: number, month: number, dayOfMonth: number, time: Date): Date {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(dayOfMonth, lastDay), time.getHours(), time.getMinutes(), time.getSeconds());
+}
+
+// anchor より後で、ルールに合う最初の日時を返す。時刻は anchor のものを引き継ぐ。
+export function getNextOccurrence(rule: RecurrenceRule, anchor: Date): Date {
+  switch (rule.kind) {
+    case "daily":
+      return addDays(anchor, 1);
+    case "interval":
+      return addDays(anchor, rule.days);
+    case "weekly": {
+      for (let offset = 1; offset <= 7; offset += 1) {
+        const candidate = addDays(anchor, offset);
+        if (rule.weekdays.includes(candidate.getDay())) {
+          return candidate;
+        }
+      }
+      return addDays(anchor, 7);
+    }
+    case "monthly": {
+      const sameMonth = dayInMonth(anchor.getFullYear(), anchor.getMonth(), rule.dayOfMonth, anchor);
+      if (sameMonth.getDate() > anchor.getDate()) {
+        return sameMonth;
+      }
+      return dayInMonth(anchor.getFullYear(), anchor.getMonth() + 1, rule.dayOfMonth, anchor);
+    }
+  }
+}
+
+function endOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 0);
+}
+
+// 完了したときに作る次回分の期限。期限が無いTODOは、その日の終わりを起点に数える。
+export function getNextDueAt(todo: Pick<Todo, "dueAt" | "recurrence">, now: Date = new Date()): string | undefined {
+  if (!todo.recurrence) {
+    return undefined;
+  }
+  const dueTime = todo.dueAt ? Date.parse(todo.dueAt) : Number.NaN;
+  const anchor = Number.isNaN(dueTime) ? endOfDay(now) : new Date(dueTime);
+  let next = getNextOccurrence(todo.recurrence, anchor);
+  for (let step = 0; next.getTime() <= now.getTime() && step < MAX_CATCH_UP_STEPS; step += 1) {
+    next = getNextOccurrence(todo.recurrence, next);
+  }
+  return next.toISOString();
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  switch (rule.kind) {
+    case "daily":
+      return "毎日";
+    case "interval":
+      return `${rule.days}日ごと`;
+    case "weekly":
+      return `毎週 ${rule.weekdays.map((weekday) => WEEKDAY_LABELS[weekday]).join("・")}`;
+    case "monthly":
+      return `毎月${rule.dayOfMonth}日`;
+  }
+}
+
+function clampInteger(value: unknown, min: number, max: number, fallback: number): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    return fallback;
+  }
+  return Math.min(max, Math.max(min, Math.round(parsed)));
+}
+
+export function normalizeRecurrenceRule(value: unknown): RecurrenceRule | undefined {
+  if (typeof value !== "object" || value === null || !("kind" in value)) {
+    return undefined;
+  }
+  const raw = value as Record<string, unknown>;
+  switch (raw.kind) {
+    case "daily":
+      return { kind: "daily" };
+    case "interval":
+      return { kind: "interval", days: clampInteger(raw.days, 1, MAX_INTERVAL_DAYS, 1) };
+    case "weekly": {
+      const weekdays = Array.isArray(raw.weekdays)
+        ? [...new Set(raw.weekdays.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6))]
+        : [];
+      return weekdays.length > 0 ? { kind: "weekly", weekdays: weekdays.sort((a, b) => a - b) } : undefined;
+    }
+    case "monthly":
+      return { kind: "monthly", dayOfMonth: clampInteger(raw.dayOfMonth, 1, 31, 1) };
+    default:
+      return undefined;
+  }
+}
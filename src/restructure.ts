@@ -0,0 +1,227 @@
+import { collectSubTaskTreeIds } from "./subTaskTree";
+import type { AppState, SubTask, Todo } from "./types";
+
+// 移した対象の集中の記録を、移した先のTODOへ付け替える。renamed は TODO⇔子タスクの変換で ID が変わった対象。
+function reassignFocusSessions(
+  sessions: AppState["focusSessions"],
+  targetIds: string[],
+  todoId: string,
+  renamed?: { from: string; to: string },
+): AppState["focusSessions"] {
+  let result = sessions;
+  for (const session of Object.values(sessions)) {
+    if (!targetIds.includes(session.targetId)) {
+      continue;
+    }
+    const targetId = session.targetId === renamed?.from ? renamed.to : session.targetId;
+    if (targetId === session.targetId && session.todoId === todoId) {
+      continue;
+    }
+    if (result === sessions) {
+      result = { ...sessions };
+    }
+    result[session.id] = { ...session, targetId, todoId };
+  }
+  return result;
+}
+
+// 子タスクを置く場所。parentSubTaskId が無ければTODO直下。
+export type SubTaskDestination = {
+  todoId: string;
+  parentSubTaskId?: string;
+};
+
+export function getSubTaskLocation(subTask: SubTask): SubTaskDestination {
+  return { todoId: subTask.parentId, parentSubTaskId: subTask.parentSubTaskId };
+}
+
+// その場所に並んでいる子タスクのID。親が無ければ undefined。
+export function getSiblingSubTaskIds(state: AppState, location: SubTaskDestination): string[] | undefined {
+  if (location.parentSubTaskId) {
+    const parent = state.subTasks[location.parentSubTaskId];
+    return parent?.parentId === location.todoId ? parent.subTaskIds : undefined;
+  }
+  return state.todos[location.todoId]?.subTaskIds;
+}
+
+function updateSiblingIds(
+  todos: AppState["todos"],
+  subTasks: AppState["subTasks"],
+  location: SubTaskDestination,
+  update: (ids: string[]) => string[],
+): void {
+  if (location.parentSubTaskId) {
+    const parent = subTasks[location.parentSubTaskId];
+    if (parent) {
+      subTasks[parent.id] = { ...parent, subTaskIds: update(parent.subTaskIds) };
+    }
+    return;
+  }
+  const todo = todos[location.todoId];
+  if (todo) {
+    todos[todo.id] = { ...todo, subTaskIds: update(todo.subTaskIds) };
+  }
+}
+
+// 配下の子タスクは入れ子のまま付いていく。parentId はルートのTODOを指すので、別のTODOへ移したら付け替える。
+function reassignRoot(subTasks: AppState["subTasks"], subTaskIds: string[], todoId: string): void {
+  for (const id of collectSubTaskTreeIds(subTasks, subTaskIds)) {
+    const subTask = subTasks[id];
+    if (subTask && subTask.parentId !== todoId) {
+      subTasks[id] = { ...subTask, parentId: todoId };
+    }
+  }
+}
+
+// destination の並びの index 番目の手前（末尾なら最後の後ろ）へ移す。index は移す前の並びでの位置。
+// 自分や配下の子タスクの下へは移せない。
+export function moveSubTask(
+  state: AppState,
+  subTaskId: string,
+  destination: SubTaskDestination,
+  index: number,
+): AppState {
+  const subTask = state.subTasks[subTaskId];
+  const siblings = getSiblingSubTaskIds(state, destination);
+  if (!subTask || !siblings || index < 0) {
+    return state;
+  }
+  const movedIds = collectSubTaskTreeIds(state.subTasks, [subTaskId]);
+  if (destination.parentSubTaskId && movedIds.includes(destination.parentSubTaskId)) {
+    return state;
+  }
+
+  const source = getSubTaskLocation(subTask);
+  const isSameList = source.todoId === destination.todoId && source.parentSubTaskId === destination.parentSubTaskId;
+  const fromIndex = isSameList ? siblings.indexOf(subTaskId) : -1;
+  const adjustedIndex = Math.min(fromIndex >= 0 && fromIndex < index ? index - 1 : index, siblings.length);
+  if (isSameList && adjustedIndex === fromIndex) {
+    return state;
+  }
+
+  const nextTodos = { ...state.todos };
+  const nextSubTasks = { ...state.subTasks };
+  updateSiblingIds(nextTodos, nextSubTasks, source, (ids) => ids.filter((id) => id !== subTaskId));
+  updateSiblingIds(nextTodos, nextSubTasks, destination, (ids) => {
+    const nextIds = [...ids];
+    nextIds.splice(Math.min(adjustedIndex, nextIds.length), 0, subTaskId);
+    return nextIds;
+  });
+  if (!isSameList) {
+    nextSubTasks[subTaskId] = { ...subTask, parentId: destination.todoId, parentSubTaskId: destination.parentSubTaskId };
+    reassignRoot(nextSubTasks, subTask.subTaskIds, destination.todoId);
+  }
+
+  return {
+    ...state,
+    todos: nextTodos,
+    subTasks: nextSubTasks,
+    focusSessions: reassignFocusSessions(state.focusSessions, movedIds, destination.todoId),
+  };
+}
+
+// 子タスクを新しいTODO（ID は todoId）にして、元のTODOのすぐ下に並べる。配下の子タスクはそのTODOの子タスクになる。
+// タグは元のTODOから引き継ぐ。TODOには見積もりの項目が無いので、子タスク自体の見積もりは残らない。
+export function promoteSubTask(state: AppState, subTaskId: string, todoId: string, now: string): AppState {
+  const subTask = state.subTasks[subTaskId];
+  const parentTodo = subTask ? state.todos[subTask.parentId] : undefined;
+  if (!subTask || !parentTodo || state.todos[todoId]) {
+    return state;
+  }
+
+  const nextTodos = { ...state.todos };
+  const nextSubTasks = { ...state.subTasks };
+  updateSiblingIds(nextTodos, nextSubTasks, getSubTaskLocation(subTask), (ids) => ids.filter((id) => id !== subTaskId));
+  delete nextSubTasks[subTaskId];
+  for (const childId of subTask.subTaskIds) {
+    const child = nextSubTasks[childId];
+    if (child) {
+      nextSubTasks[childId] = { ...child, parentSubTaskId: undefined };
+    }
+  }
+  reassignRoot(nextSubTasks, subTask.subTaskIds, todoId);
+
+  const todo: Todo = {
+    id: todoId,
+    text: subTask.text,
+    priority: 0,
+    completed: subTask.completed,
+    completedAt: subTask.completedAt,
+    createdAt: subTask.createdAt,
+    updatedAt: now,
+    tags: [...parentTodo.tags],
+    subTaskIds: [...subTask.subTaskIds],
+  };
+  nextTodos[todoId] = todo;
+
+  // 元のTODOがアーカイブ済みで一覧に無ければ先頭に置く。
+  const parentIndex = state.todoOrder.indexOf(parentTodo.id);
+  const nextOrder = [...state.todoOrder];
+  nextOrder.splice(parentIndex + 1, 0, todoId);
+
+  return {
+    ...state,
+    todos: nextTodos,
+    subTasks: nextSubTasks,
+    todoOrder: nextOrder,
+    focusSessions: reassignFocusSessions(
+      state.focusSessions,
+      collectSubTaskTreeIds(state.subTasks, [subTaskId]),
+      todoId,
+      { from: subTaskId, to: todoId },
+    ),
+  };
+}
+
+// TODOを別のTODO直下の末尾の子タスク（ID は subTaskId）にする。配下の子タスクは入れ子のまま付いていく。
+// 優先度・期限・タグ・繰り返しは子タスクに無いので残らない。
+export function demoteTodo(
+  state: AppState,
+  todoId: string,
+  destinationTodoId: string,
+  subTaskId: string,
+  now: string,
+): AppState {
+  const todo = state.todos[todoId];
+  const destination = state.todos[destinationTodoId];
+  if (!todo || !destination || todo.id === destination.id || destination.archivedAt || state.subTasks[subTaskId]) {
+    return state;
+  }
+
+  const nextTodos = { ...state.todos };
+  const nextSubTasks = { ...state.subTasks };
+  delete nextTodos[todoId];
+  nextSubTasks[subTaskId] = {
+    id: subTaskId,
+    parentId: destination.id,
+    text: todo.text,
+    completed: todo.completed,
+    completedAt: todo.completedAt,
+    createdAt: todo.createdAt,
+    updatedAt: now,
+    source: "manual",
+    subTaskIds: [...todo.subTaskIds],
+  };
+  for (const childId of todo.subTaskIds) {
+    const child = nextSubTasks[childId];
+    if (child) {
+      nextSubTasks[childId] = { ...child, parentSubTaskId: subTaskId };
+    }
+  }
+  reassignRoot(nextSubTasks, todo.subTaskIds, destination.id);
+  nextTodos[destination.id] = { ...destination, subTaskIds: [...destination.subTaskIds, subTaskId] };
+
+  return {
+    ...state,
+    todos: nextTodos,
+    subTasks: nextSubTasks,
+    todoOrder: state.todoOrder.filter((id) => id !== todoId),
+    collapsedTodoIds: state.collapsedTodoIds.filter((id) => id !== todoId),
+    focusSessions: reassignFocusSessions(
+      state.focusSessions,
+      [todoId, ...collectSubTaskTreeIds(state.subTasks, todo.subTaskIds)],
+      destination.id,
+      { from: todoId, to: subTaskId },
+    ),
+  };
+}
@@ -0,0 +1,87 @@
+import { collectSubTaskTreeIds } from "./subTaskTree";
+import type { AppState, Todo } from "./types";
+
+const SEARCH_PARAM = "q";
+
+export type MatchRange = {
+  start: number;
+  end: number;
+};
+
+export type TodoSearchResult = {
+  matches: boolean;
+  // 検索語を含む子タスクのID。折りたたんだカードを開くかどうかの判定に使う。
+  matchedSubTaskIds: string[];
+};
+
+// 大文字小文字と全角英数字の違いを無視する。ハイライト位置がずれないよう文字数は変えない。
+function foldForSearch(text: string): string {
+  return text
+    .replace(/[Ａ-Ｚａ-ｚ０-９]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0xfee0))
+    .toLowerCase();
+}
+
+export function parseSearchTerms(query: string): string[] {
+  return foldForSearch(query)
+    .split(/\s+/)
+    .filter((term) => term.length > 0);
+}
+
+// text 中で検索語に一致する範囲を、重なりをまとめて先頭から順に返す。
+export function findMatchRanges(text: string, terms: string[]): MatchRange[] {
+  if (terms.length === 0) {
+    return [];
+  }
+  const folded = foldForSearch(text);
+  const ranges: MatchRange[] = [];
+  for (const term of terms) {
+    let index = folded.indexOf(term);
+    while (index >= 0) {
+      ranges.push({ start: index, end: index + term.length });
+      index = folded.indexOf(term, index + term.length);
+    }
+  }
+  ranges.sort((a, b) => a.start - b.start);
+
+  const merged: MatchRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+// すべての検索語が、TODO本文か配下の子タスクのどこかに含まれていれば一致とみなす。
+export function searchTodo(todo: Todo, subTasks: AppState["subTasks"], terms: string[]): TodoSearchResult {
+  if (terms.length === 0) {
+    return { matches: true, matchedSubTaskIds: [] };
+  }
+  const subTaskIds = collectSubTaskTreeIds(subTasks, todo.subTaskIds);
+  const texts = [todo.text, ...subTaskIds.map((id) => subTasks[id]?.text ?? "")].map(foldForSearch);
+  const matches = terms.every((term) => texts.some((text) => text.includes(term)));
+  const matchedSubTaskIds = matches
+    ? subTaskIds.filter((_, index) => terms.some((term) => texts[index + 1].includes(term)))
+    : [];
+  return { matches, matchedSubTaskIds };
+}
+
+export function readSearchQueryFromUrl(): string {
+  return new URLSearchParams(window.location.search).get(SEARCH_PARAM) ?? "";
+}
+
+// 履歴を増やさずにURLの検索語だけを書き換え、ブックマークで同じ絞り込みを開けるようにする。
+export function writeSearchQueryToUrl(query: string): void {
+  const url = new URL(window.location.href);
+  if (query) {
+    url.searchParams.set(SEARCH_PARAM, query);
+  } else {
+    url.searchParams.delete(SEARCH_PARAM);
+  }
+  if (url.href !== window.location.href) {
+    window.history.replaceState(window.history.state, "", url);
+  }
+}
@@ -0,0 +1,73 @@
+import type { EncryptedSecret } from "./types";
+
+const PBKDF2_ITERATIONS = 310_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export class SecretError extends Error {
+  readonly code: "CRYPTO_UNAVAILABLE" | "WRONG_PASSPHRASE";
+
+  constructor(code: SecretError["code"], message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+function requireSubtleCrypto(): SubtleCrypto {
+  if (typeof crypto === "undefined" || !crypto.subtle) {
+    throw new SecretError("CRYPTO_UNAVAILABLE", "このブラウザ（またはhttp接続）では暗号化を利用できません。");
+  }
+  return crypto.subtle;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const subtle = requireSubtleCrypto();
+  const material = await subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, [
+    "deriveKey",
+  ]);
+  return subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+// パスフレーズから PBKDF2 で鍵を作り、AES-GCM で暗号化する。
+export async function encryptSecret(plaintext: string, passphrase: string): Promise<EncryptedSecret> {
+  const subtle = requireSubtleCrypto();
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(plaintext));
+  return {
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+    iv: toBase64(iv),
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+  };
+}
+
+export async function decryptSecret(secret: EncryptedSecret, passphrase: string): Promise<string> {
+  const subtle = requireSubtleCrypto();
+  const key = await deriveKey(passphrase, fromBase64(secret.salt), secret.iterations);
+  try {
+    const plaintext = await subtle.decrypt({ name: "AES-GCM", iv: fromBase64(secret.iv) }, key, fromBase64(secret.ciphertext));
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new SecretError("WRONG_PASSPHRASE", "パスフレーズが違います。");
+  }
+}
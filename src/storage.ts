@@ -1,6 +1,108 @@
-import { APP_SCHEMA_VERSION, DEFAULT_MODEL, type AppState, clampPriority } from "./types";
+import { normalizeEstimatedMinutes } from "./estimate";
+import { clampFocusMinutes } from "./focus";
+import { normalizeRecurrenceRule } from "./recurrence";
+import { normalizeTags } from "./tags";
+import {
+  AI_PROVIDER_KINDS,
+  APP_SCHEMA_VERSION,
+  clampArchiveAfterDays,
+  DEFAULT_ARCHIVE_AFTER_DAYS,
+  DEFAULT_MODEL,
+  DEFAULT_PLANNER_AVAILABLE_MINUTES,
+  DEFAULT_REQUEST_TIMEOUT_SECONDS,
+  type AppState,
+  clampPriority,
+  type EncryptedSecret,
+  type FocusSession,
+  type SubTask,
+  type Todo,
+  clampRequestTimeoutSeconds,
+  clampPlannerAvailableMinutes,
+} from "./types";
 
 export const STORAGE_KEY = "pirido.app.v1";
+export const BACKUP_STORAGE_KEY = "pirido.app.backup";
+
+const EPOCH_ISO = new Date(0).toISOString();
+
+export class StorageError extends Error {
+  readonly code:
+    | "INVALID_JSON"
+    | "INVALID_MARKDOWN"
+    | "UNSUPPORTED_VERSION"
+    | "MIGRATION_FAILED"
+    | "LOAD_FAILED"
+    | "QUOTA_EXCEEDED"
+    | "SAVE_FAILED";
+
+  constructor(code: StorageError["code"], message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+export type LoadResult =
+  | { ok: true; state: AppState }
+  | { ok: false; error: StorageError; raw: string };
+
+type RawState = Record<string, unknown>;
+
+// キーは移行元のスキーマバージョン。MIGRATIONS[n] は v{n} の生データを v{n+1} の形に変換する。
+// スキーマを上げるときは APP_SCHEMA_VERSION を増やし、ここに1段分の変換を追加する。
+const MIGRATIONS: Record<number, (raw: RawState) => RawState> = {
+  // v2: 子タスクが自分の子タスクを持てるようになった。
+  1: (raw) => {
+    if (!isObject(raw.subTasks)) {
+      return raw;
+    }
+    const subTasks: RawState = {};
+    for (const [id, value] of Object.entries(raw.subTasks)) {
+      subTasks[id] = isObject(value) ? { ...value, subTaskIds: [] } : value;
+    }
+    return { ...raw, subTasks };
+  },
+  // v3: タブ間マージのために TODO・子タスクへ updatedAt を持たせた。
+  2: (raw) => {
+    const withUpdatedAt = (records: unknown): unknown => {
+      if (!isObject(records)) {
+        return records;
+      }
+      const next: RawState = {};
+      for (const [id, value] of Object.entries(records)) {
+        next[id] = isObject(value) ? { ...value, updatedAt: value.createdAt } : value;
+      }
+      return next;
+    };
+    return { ...raw, todos: withUpdatedAt(raw.todos), subTasks: withUpdatedAt(raw.subTasks) };
+  },
+  // v4: TODOにタグを付けられるようになった。
+  3: (raw) => {
+    if (!isObject(raw.todos)) {
+      return raw;
+    }
+    const todos: RawState = {};
+    for (const [id, value] of Object.entries(raw.todos)) {
+      todos[id] = isObject(value) ? { ...value, tags: [] } : value;
+    }
+    return { ...raw, todos };
+  },
+  // v5: 完了日時を記録するようになった。既存の完了済みは最後に更新した日時を完了日時とみなす。
+  4: (raw) => {
+    const withCompletedAt = (records: unknown): unknown => {
+      if (!isObject(records)) {
+        return records;
+      }
+      const next: RawState = {};
+      for (const [id, value] of Object.entries(records)) {
+        next[id] = isObject(value) && value.completed ? { ...value, completedAt: value.updatedAt } : value;
+      }
+      return next;
+    };
+    return { ...raw, todos: withCompletedAt(raw.todos), subTasks: withCompletedAt(raw.subTasks) };
+  },
+  // v6: 集中タイマーの記録を持つようになった。
+  5: (raw) => ({ ...raw, focusSessions: {} }),
+};
 
 export function createInitialState(): AppState {
   return {
@@ -8,9 +110,22 @@ export function createInitialState(): AppState {
     subTasks: {},
     todoOrder: [],
     collapsedTodoIds: [],
+    focusSessions: {},
     settings: {
       openaiApiKey: "",
       model: DEFAULT_MODEL,
+      providerKind: "openai-responses",
+      baseUrl: "",
+      requestTimeoutSeconds: DEFAULT_REQUEST_TIMEOUT_SECONDS,
+      archiveAfterDays: DEFAULT_ARCHIVE_AFTER_DAYS,
+      syncServerUrl: "",
+      syncToken: "",
+      plannerAvailableMinutes: DEFAULT_PLANNER_AVAILABLE_MINUTES,
+    },
+    syncMeta: {
+      todoOrderUpdatedAt: EPOCH_ISO,
+      settingsUpdatedAt: EPOCH_ISO,
+      deletedAt: {},
     },
     schemaVersion: APP_SCHEMA_VERSION,
   };
@@ -20,56 +135,210 @@ function isObject(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null;
 }
 
-function migrateState(raw: unknown): AppState {
-  if (!isObject(raw)) {
-    return createInitialState();
+function normalizeTimestamp(value: unknown, fallback: string): string {
+  if (typeof value !== "string") {
+    return fallback;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? fallback : new Date(time).toISOString();
+}
+
+function normalizeEncryptedSecret(value: unknown): EncryptedSecret | undefined {
+  if (
+    !isObject(value) ||
+    typeof value.ciphertext !== "string" ||
+    typeof value.iv !== "string" ||
+    typeof value.salt !== "string" ||
+    typeof value.iterations !== "number"
+  ) {
+    return undefined;
+  }
+  return { ciphertext: value.ciphertext, iv: value.iv, salt: value.salt, iterations: value.iterations };
+}
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+function normalizeOptionalTimestamp(value: unknown): string | undefined {
+  if (typeof value !== "string" || !value) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function runMigrations(raw: RawState): RawState {
+  const version = raw.schemaVersion;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new StorageError("UNSUPPORTED_VERSION", "保存データのスキーマバージョンを判別できません。");
+  }
+  if (version > APP_SCHEMA_VERSION) {
+    throw new StorageError(
+      "UNSUPPORTED_VERSION",
+      `保存データ(v${version})はこのバージョンのPirido(v${APP_SCHEMA_VERSION})より新しい形式です。`,
+    );
+  }
+
+  let current = raw;
+  for (let from = version; from < APP_SCHEMA_VERSION; from += 1) {
+    const step = MIGRATIONS[from];
+    if (!step) {
+      throw new StorageError("MIGRATION_FAILED", `v${from}からの移行処理が見つかりません。`);
+    }
+    try {
+      current = { ...step(current), schemaVersion: from + 1 };
+    } catch {
+      throw new StorageError("MIGRATION_FAILED", `v${from}からv${from + 1}への移行に失敗しました。`);
+    }
+  }
+  return current;
+}
+
+// 保存データや同期で受け取った1件分を現在の形にそろえる。必要な項目が読めなければ undefined。
+export function normalizeTodo(id: string, value: unknown): Todo | undefined {
+  if (!isObject(value)) {
+    return undefined;
   }
+  const createdAt = typeof value.createdAt === "string" ? value.createdAt : new Date().toISOString();
+  const updatedAt = normalizeTimestamp(value.updatedAt, createdAt);
+  const completed = Boolean(value.completed);
+  return {
+    id: typeof value.id === "string" ? value.id : id,
+    text: typeof value.text === "string" ? value.text : "",
+    priority: clampPriority(value.priority),
+    completed,
+    completedAt: completed ? normalizeTimestamp(value.completedAt, updatedAt) : undefined,
+    archivedAt: normalizeOptionalTimestamp(value.archivedAt),
+    createdAt,
+    updatedAt,
+    dueAt: normalizeOptionalTimestamp(value.dueAt),
+    tags: normalizeTags(toStringArray(value.tags)),
+    recurrence: normalizeRecurrenceRule(value.recurrence),
+    locked: value.locked === true ? true : undefined,
+    subTaskIds: toStringArray(value.subTaskIds),
+  };
+}
 
-  const schemaVersion = raw.schemaVersion;
-  if (schemaVersion !== APP_SCHEMA_VERSION) {
+export function normalizeSubTask(id: string, value: unknown): SubTask | undefined {
+  if (!isObject(value) || typeof value.parentId !== "string") {
+    return undefined;
+  }
+  const createdAt = typeof value.createdAt === "string" ? value.createdAt : new Date().toISOString();
+  const updatedAt = normalizeTimestamp(value.updatedAt, createdAt);
+  return {
+    id: typeof value.id === "string" ? value.id : id,
+    parentId: value.parentId,
+    parentSubTaskId: typeof value.parentSubTaskId === "string" ? value.parentSubTaskId : undefined,
+    text: typeof value.text === "string" ? value.text : "",
+    completed: Boolean(value.completed),
+    completedAt: value.completed ? normalizeTimestamp(value.completedAt, updatedAt) : undefined,
+    createdAt,
+    updatedAt,
+    source: value.source === "manual" ? "manual" : "ai",
+    estimatedMinutes: normalizeEstimatedMinutes(value.estimatedMinutes),
+    subTaskIds: toStringArray(value.subTaskIds),
+  };
+}
+
+export function normalizeFocusSession(id: string, value: unknown): FocusSession | undefined {
+  if (!isObject(value) || typeof value.targetId !== "string" || typeof value.todoId !== "string") {
+    return undefined;
+  }
+  const startedAt = normalizeOptionalTimestamp(value.startedAt);
+  if (!startedAt) {
+    return undefined;
+  }
+  return {
+    id: typeof value.id === "string" ? value.id : id,
+    targetId: value.targetId,
+    todoId: value.todoId,
+    targetText: typeof value.targetText === "string" ? value.targetText : "",
+    startedAt,
+    plannedMinutes: clampFocusMinutes(value.plannedMinutes),
+    endedAt: normalizeOptionalTimestamp(value.endedAt),
+    updatedAt: normalizeTimestamp(value.updatedAt, startedAt),
+  };
+}
+
+function normalizeRecords<T>(
+  records: Record<string, unknown>,
+  normalize: (id: string, value: unknown) => T | undefined,
+): Record<string, T> {
+  const normalized: Record<string, T> = {};
+  for (const [id, value] of Object.entries(records)) {
+    const record = normalize(id, value);
+    if (record) {
+      normalized[id] = record;
+    }
+  }
+  return normalized;
+}
+
+export function migrateState(input: unknown): AppState {
+  if (!isObject(input)) {
     return createInitialState();
   }
 
+  const raw = runMigrations(input);
   const next = createInitialState();
 
   if (isObject(raw.todos)) {
-    const normalizedTodos: AppState["todos"] = {};
-    for (const [id, value] of Object.entries(raw.todos)) {
-      if (!isObject(value)) {
-        continue;
-      }
-      normalizedTodos[id] = {
-        id: typeof value.id === "string" ? value.id : id,
-        text: typeof value.text === "string" ? value.text : "",
-        priority: clampPriority(value.priority),
-        completed: Boolean(value.completed),
-        createdAt: typeof value.createdAt === "string" ? value.createdAt : new Date().toISOString(),
-        subTaskIds: Array.isArray(value.subTaskIds)
-          ? value.subTaskIds.filter((subTaskId): subTaskId is string => typeof subTaskId === "string")
-          : [],
-      };
-    }
-    next.todos = normalizedTodos;
+    next.todos = normalizeRecords(raw.todos, normalizeTodo);
   }
 
   if (isObject(raw.subTasks)) {
-    next.subTasks = raw.subTasks as AppState["subTasks"];
+    next.subTasks = normalizeRecords(raw.subTasks, normalizeSubTask);
   }
 
   if (Array.isArray(raw.todoOrder)) {
-    next.todoOrder = raw.todoOrder.filter((id): id is string => typeof id === "string");
+    next.todoOrder = toStringArray(raw.todoOrder);
   }
 
   if (Array.isArray(raw.collapsedTodoIds)) {
-    next.collapsedTodoIds = raw.collapsedTodoIds.filter((id): id is string => typeof id === "string");
+    next.collapsedTodoIds = toStringArray(raw.collapsedTodoIds);
+  }
+
+  if (isObject(raw.focusSessions)) {
+    next.focusSessions = normalizeRecords(raw.focusSessions, normalizeFocusSession);
   }
 
   if (isObject(raw.settings)) {
     const key = raw.settings.openaiApiKey;
     const model = raw.settings.model;
+    const rawProviderKind = raw.settings.providerKind;
+    const providerKind = AI_PROVIDER_KINDS.find((kind) => kind === rawProviderKind);
+    const baseUrl = raw.settings.baseUrl;
+    const syncServerUrl = raw.settings.syncServerUrl;
+    const syncToken = raw.settings.syncToken;
+    const encryptedApiKey = normalizeEncryptedSecret(raw.settings.encryptedApiKey);
     next.settings = {
-      openaiApiKey: typeof key === "string" ? key : "",
+      openaiApiKey: typeof key === "string" && !encryptedApiKey ? key : "",
+      encryptedApiKey,
       model: typeof model === "string" && model.trim() ? model : DEFAULT_MODEL,
+      providerKind: providerKind ?? "openai-responses",
+      baseUrl: typeof baseUrl === "string" ? baseUrl.trim() : "",
+      requestTimeoutSeconds: clampRequestTimeoutSeconds(raw.settings.requestTimeoutSeconds),
+      archiveAfterDays: clampArchiveAfterDays(raw.settings.archiveAfterDays),
+      syncServerUrl: typeof syncServerUrl === "string" ? syncServerUrl.trim() : "",
+      syncToken: typeof syncToken === "string" ? syncToken : "",
+      plannerAvailableMinutes: clampPlannerAvailableMinutes(raw.settings.plannerAvailableMinutes),
+    };
+  }
+
+  if (isObject(raw.syncMeta)) {
+    const deletedAt: Record<string, string> = {};
+    if (isObject(raw.syncMeta.deletedAt)) {
+      for (const [id, value] of Object.entries(raw.syncMeta.deletedAt)) {
+        if (typeof value === "string") {
+          deletedAt[id] = normalizeTimestamp(value, EPOCH_ISO);
+        }
+      }
+    }
+    next.syncMeta = {
+      todoOrderUpdatedAt: normalizeTimestamp(raw.syncMeta.todoOrderUpdatedAt, EPOCH_ISO),
+      settingsUpdatedAt: normalizeTimestamp(raw.syncMeta.settingsUpdatedAt, EPOCH_ISO),
+      deletedAt,
     };
   }
 
@@ -77,19 +346,112 @@ function migrateState(raw: unknown): AppState {
   return next;
 }
 
-export function loadState(): AppState {
+export function backupRawState(raw: string): void {
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) {
-      return createInitialState();
-    }
+    localStorage.setItem(BACKUP_STORAGE_KEY, raw);
+  } catch {
+    // バックアップの失敗で読み込み自体を止めない。
+  }
+}
 
-    return migrateState(JSON.parse(raw));
+// パース済みの保存データを現在のスキーマまで移行する。スキーマが古い場合は移行前の生データを退避する。
+export function restoreState(parsed: unknown, raw: string): LoadResult {
+  if (isObject(parsed) && parsed.schemaVersion !== APP_SCHEMA_VERSION) {
+    backupRawState(raw);
+  }
+
+  try {
+    return { ok: true, state: migrateState(parsed) };
+  } catch (error) {
+    return {
+      ok: false,
+      error:
+        error instanceof StorageError
+          ? error
+          : new StorageError("MIGRATION_FAILED", "保存データの移行に失敗しました。"),
+      raw,
+    };
+  }
+}
+
+export function loadState(): LoadResult {
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(STORAGE_KEY);
   } catch {
-    return createInitialState();
+    return { ok: true, state: createInitialState() };
+  }
+  if (!raw) {
+    return { ok: true, state: createInitialState() };
   }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return {
+      ok: false,
+      error: new StorageError("INVALID_JSON", "保存データが壊れていて読み込めません。"),
+      raw,
+    };
+  }
+
+  return restoreState(parsed, raw);
+}
+
+export function isQuotaExceededError(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED")
+  );
+}
+
+export function toSaveError(error: unknown): StorageError {
+  if (error instanceof StorageError) {
+    return error;
+  }
+  if (isQuotaExceededError(error)) {
+    return new StorageError(
+      "QUOTA_EXCEEDED",
+      "保存容量の上限に達したため保存できませんでした。不要なTODOを削除するか、JSONを書き出して退避してください。",
+    );
+  }
+  return new StorageError("SAVE_FAILED", "データを保存できませんでした。");
 }
 
 export function saveState(state: AppState): void {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    throw toSaveError(error);
+  }
 }
+
+export type StorageAdapter = {
+  load: () => Promise<LoadResult>;
+  save: (state: AppState) => Promise<void>;
+  // 他タブが保存した状態を受け取る。戻り値を呼ぶと購読を解除する。
+  subscribe: (onRemoteState: (state: AppState) => void) => () => void;
+};
+
+export const localStorageAdapter: StorageAdapter = {
+  load: async () => loadState(),
+  save: async (state) => saveState(state),
+  subscribe: (onRemoteState) => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.storageArea !== localStorage || event.key !== STORAGE_KEY || !event.newValue) {
+        return;
+      }
+      try {
+        onRemoteState(migrateState(JSON.parse(event.newValue)));
+      } catch {
+        // 読めない状態は無視し、次の保存を待つ。
+      }
+    };
+
+    window.addEventListener("storage", onStorage);
+    return () => {
+      window.removeEventListener("storage", onStorage);
+    };
+  },
+};
@@ -0,0 +1,41 @@
+import type { AppState, SubTask } from "./types";
+
+type SubTaskMap = AppState["subTasks"];
+
+// rootIds とその配下すべての子タスクIDを、親→子の順で返す。
+export function collectSubTaskTreeIds(subTasks: SubTaskMap, rootIds: string[]): string[] {
+  const result: string[] = [];
+  const visit = (ids: string[]) => {
+    for (const id of ids) {
+      const subTask = subTasks[id];
+      if (!subTask || result.includes(id)) {
+        continue;
+      }
+      result.push(id);
+      visit(subTask.subTaskIds);
+    }
+  };
+  visit(rootIds);
+  return result;
+}
+
+// TODO直下の子タスクから、指定した子タスクの直接の親までを上から順に返す。
+export function getSubTaskAncestors(subTasks: SubTaskMap, subTaskId: string): SubTask[] {
+  const ancestors: SubTask[] = [];
+  const seen = new Set<string>([subTaskId]);
+  let parentSubTaskId = subTasks[subTaskId]?.parentSubTaskId;
+  while (parentSubTaskId && !seen.has(parentSubTaskId)) {
+    const parent = subTasks[parentSubTaskId];
+    if (!parent) {
+      break;
+    }
+    seen.add(parentSubTaskId);
+    ancestors.unshift(parent);
+    parentSubTaskId = parent.parentSubTaskId;
+  }
+  return ancestors;
+}
+
+export function getChildSubTasks(subTasks: SubTaskMap, subTaskIds: string[]): SubTask[] {
+  return subTaskIds.map((id) => subTasks[id]).filter((subTask): subTask is SubTask => Boolean(subTask));
+}
@@ -0,0 +1,187 @@
+import type { AppState, FocusSession, SubTask, Todo } from "./types";
+
+const TOMBSTONE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+type Entity = Todo | SubTask | FocusSession;
+
+function stampRecord<T extends Entity>(
+  prev: Record<string, T>,
+  next: Record<string, T>,
+  now: string,
+): Record<string, T> {
+  if (prev === next) {
+    return next;
+  }
+  let result = next;
+  for (const [id, item] of Object.entries(next)) {
+    if (prev[id] === item) {
+      continue;
+    }
+    if (result === next) {
+      result = { ...next };
+    }
+    result[id] = { ...item, updatedAt: now };
+  }
+  return result;
+}
+
+function pruneTombstones(deletedAt: Record<string, string>, now: string): Record<string, string> {
+  const threshold = Date.parse(now) - TOMBSTONE_TTL_MS;
+  const pruned: Record<string, string> = {};
+  for (const [id, time] of Object.entries(deletedAt)) {
+    if (Date.parse(time) >= threshold) {
+      pruned[id] = time;
+    }
+  }
+  return pruned;
+}
+
+// 変更前後の状態を比べて、参照が変わったエンティティに更新日時を、消えたものに削除日時を付ける。
+// useAppState の更新は全てイミュータブルなので、参照の比較だけで変更箇所が分かる。
+export function stampChanges(prev: AppState, next: AppState, now: string = new Date().toISOString()): AppState {
+  if (prev === next) {
+    return next;
+  }
+
+  const deletedAt = { ...next.syncMeta.deletedAt };
+  for (const id of Object.keys(prev.todos)) {
+    if (!next.todos[id]) {
+      deletedAt[id] = now;
+    }
+  }
+  for (const id of Object.keys(prev.subTasks)) {
+    if (!next.subTasks[id]) {
+      deletedAt[id] = now;
+    }
+  }
+  for (const id of Object.keys(prev.focusSessions)) {
+    if (!next.focusSessions[id]) {
+      deletedAt[id] = now;
+    }
+  }
+  // 取り消しなどで復活したものは削除扱いを外す。
+  for (const id of Object.keys(deletedAt)) {
+    if (next.todos[id] || next.subTasks[id] || next.focusSessions[id]) {
+      delete deletedAt[id];
+    }
+  }
+
+  return {
+    ...next,
+    todos: stampRecord(prev.todos, next.todos, now),
+    subTasks: stampRecord(prev.subTasks, next.subTasks, now),
+    focusSessions: stampRecord(prev.focusSessions, next.focusSessions, now),
+    syncMeta: {
+      todoOrderUpdatedAt: prev.todoOrder !== next.todoOrder ? now : next.syncMeta.todoOrderUpdatedAt,
+      settingsUpdatedAt: prev.settings !== next.settings ? now : next.syncMeta.settingsUpdatedAt,
+      deletedAt: pruneTombstones(deletedAt, now),
+    },
+  };
+}
+
+function mergeRecord<T extends Entity>(
+  local: Record<string, T>,
+  remote: Record<string, T>,
+  deletedAt: Record<string, string>,
+): Record<string, T> {
+  const merged: Record<string, T> = {};
+  const ids = [...Object.keys(local), ...Object.keys(remote).filter((id) => !local[id])];
+  for (const id of ids) {
+    const localItem = local[id];
+    const remoteItem = remote[id];
+    let winner = localItem ?? remoteItem;
+    if (localItem && remoteItem && remoteItem.updatedAt > localItem.updatedAt) {
+      winner = remoteItem;
+    }
+    const deletedTime = deletedAt[id];
+    if (!winner || (deletedTime && deletedTime >= winner.updatedAt)) {
+      continue;
+    }
+    merged[id] = winner;
+  }
+  return merged;
+}
+
+// 片方のタブで追加した子タスクが、もう片方で更新された親の一覧から漏れないように親子のリストを整える。
+export function reconcileChildLists(todos: AppState["todos"], subTasks: AppState["subTasks"]) {
+  const nextTodos = { ...todos };
+  const nextSubTasks = { ...subTasks };
+
+  for (const [id, todo] of Object.entries(nextTodos)) {
+    const filtered = todo.subTaskIds.filter(
+      (subTaskId) => nextSubTasks[subTaskId]?.parentId === id && !nextSubTasks[subTaskId]?.parentSubTaskId,
+    );
+    if (filtered.length !== todo.subTaskIds.length) {
+      nextTodos[id] = { ...todo, subTaskIds: filtered };
+    }
+  }
+  for (const [id, subTask] of Object.entries(nextSubTasks)) {
+    const filtered = subTask.subTaskIds.filter((childId) => nextSubTasks[childId]?.parentSubTaskId === id);
+    if (filtered.length !== subTask.subTaskIds.length) {
+      nextSubTasks[id] = { ...subTask, subTaskIds: filtered };
+    }
+  }
+
+  for (const subTask of Object.values(subTasks)) {
+    if (subTask.parentSubTaskId) {
+      const parent = nextSubTasks[subTask.parentSubTaskId];
+      if (!parent) {
+        delete nextSubTasks[subTask.id];
+      } else if (!parent.subTaskIds.includes(subTask.id)) {
+        nextSubTasks[parent.id] = { ...parent, subTaskIds: [...parent.subTaskIds, subTask.id] };
+      }
+      continue;
+    }
+    const todo = nextTodos[subTask.parentId];
+    if (!todo) {
+      delete nextSubTasks[subTask.id];
+    } else if (!todo.subTaskIds.includes(subTask.id)) {
+      nextTodos[todo.id] = { ...todo, subTaskIds: [...todo.subTaskIds, subTask.id] };
+    }
+  }
+
+  return { todos: nextTodos, subTasks: nextSubTasks };
+}
+
+// 他タブが保存した状態を、エンティティ単位で更新日時の新しい方を採用してマージする。
+// 変更がなければ local をそのまま返す。
+export function mergeRemoteState(local: AppState, remote: AppState): AppState {
+  const deletedAt = { ...local.syncMeta.deletedAt };
+  for (const [id, time] of Object.entries(remote.syncMeta.deletedAt)) {
+    if (!deletedAt[id] || time > deletedAt[id]) {
+      deletedAt[id] = time;
+    }
+  }
+
+  const { todos, subTasks } = reconcileChildLists(
+    mergeRecord(local.todos, remote.todos, deletedAt),
+    mergeRecord(local.subTasks, remote.subTasks, deletedAt),
+  );
+
+  const remoteOrderIsNewer = remote.syncMeta.todoOrderUpdatedAt > local.syncMeta.todoOrderUpdatedAt;
+  // アーカイブ済みのTODOは並び順に入れない。
+  const isListed = (id: string) => Boolean(todos[id]) && !todos[id].archivedAt;
+  const baseOrder = (remoteOrderIsNewer ? remote.todoOrder : local.todoOrder).filter(isListed);
+  const orderedIds = new Set(baseOrder);
+  // 並び順に含まれない新規TODOは、追加時と同じく先頭に置く。
+  const missingIds = Object.keys(todos).filter((id) => isListed(id) && !orderedIds.has(id));
+
+  const remoteSettingsAreNewer = remote.syncMeta.settingsUpdatedAt > local.syncMeta.settingsUpdatedAt;
+
+  const merged: AppState = {
+    ...local,
+    todos,
+    subTasks,
+    todoOrder: [...missingIds, ...baseOrder],
+    focusSessions: mergeRecord(local.focusSessions, remote.focusSessions, deletedAt),
+    collapsedTodoIds: local.collapsedTodoIds.filter(isListed),
+    settings: remoteSettingsAreNewer ? remote.settings : local.settings,
+    syncMeta: {
+      todoOrderUpdatedAt: remoteOrderIsNewer ? remote.syncMeta.todoOrderUpdatedAt : local.syncMeta.todoOrderUpdatedAt,
+      settingsUpdatedAt: remoteSettingsAreNewer ? remote.syncMeta.settingsUpdatedAt : local.syncMeta.settingsUpdatedAt,
+      deletedAt,
+    },
+  };
+
+  return JSON.stringify(merged) === JSON.stringify(local) ? local : merged;
+}
@@ -0,0 +1,190 @@
+import { newId } from "./ids";
+import type { SyncOperation, SyncOperationBody } from "./operations";
+import { normalizeFocusSession, normalizeSubTask, normalizeTodo } from "./storage";
+
+export const SYNC_CLIENT_STORAGE_KEY = "pirido.syncClient";
+
+// サーバーが受け付けた順番（seq）付きの操作。
+export type StoredOperation = SyncOperation & { seq: number };
+
+export type SyncConfig = {
+  serverUrl: string;
+  token: string;
+};
+
+// 端末ごとの同期の記録。未送信の操作（outbox）はオフラインの間もここに溜め、つながったら送り直す。
+export type SyncClientRecord = {
+  clientId: string;
+  serverUrl: string;
+  // 手元のデータをまだ一度も送っていなければ false。最初の同期で全件を送る。
+  initialized: boolean;
+  outbox: SyncOperation[];
+};
+
+export class SyncError extends Error {
+  readonly code: "UNREACHABLE" | "UNAUTHORIZED" | "SERVER_ERROR" | "INVALID_RESPONSE";
+
+  constructor(code: SyncError["code"], message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+const PUSH_BATCH_SIZE = 500;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function createRecord(serverUrl: string): SyncClientRecord {
+  return { clientId: newId(), serverUrl, initialized: false, outbox: [] };
+}
+
+// 別のサーバーに切り替えたら、記録を作り直して最初から同期する。
+export function loadSyncClientRecord(serverUrl: string): SyncClientRecord {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(SYNC_CLIENT_STORAGE_KEY) ?? "null");
+    if (
+      isObject(parsed) &&
+      parsed.serverUrl === serverUrl &&
+      typeof parsed.clientId === "string" &&
+      Array.isArray(parsed.outbox)
+    ) {
+      return {
+        clientId: parsed.clientId,
+        serverUrl,
+        initialized: parsed.initialized === true,
+        outbox: parsed.outbox as SyncOperation[],
+      };
+    }
+  } catch {
+    // 読めない記録は作り直す。
+  }
+  return createRecord(serverUrl);
+}
+
+export function saveSyncClientRecord(record: SyncClientRecord): void {
+  try {
+    localStorage.setItem(SYNC_CLIENT_STORAGE_KEY, JSON.stringify(record));
+  } catch {
+    // 保存できなくてもメモリ上の outbox で同期は続けられる。
+  }
+}
+
+export function updateSyncClientRecord(
+  serverUrl: string,
+  update: (record: SyncClientRecord) => SyncClientRecord,
+): SyncClientRecord {
+  const next = update(loadSyncClientRecord(serverUrl));
+  saveSyncClientRecord(next);
+  return next;
+}
+
+function resolveEndpoint(serverUrl: string, path: string): string {
+  return `${serverUrl.trim().replace(/\/+$/, "")}${path}`;
+}
+
+async function requestJson(config: SyncConfig, path: string, init: RequestInit): Promise<Record<string, unknown>> {
+  let response: Response;
+  try {
+    response = await fetch(resolveEndpoint(config.serverUrl, path), {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.token ? { Authorization: `Bearer ${config.token}` } : {}),
+      },
+    });
+  } catch {
+    throw new SyncError("UNREACHABLE", "同期サーバーに接続できませんでした。");
+  }
+
+  if (response.status === 401) {
+    throw new SyncError("UNAUTHORIZED", "同期サーバーのトークンが正しくありません。");
+  }
+  if (!response.ok) {
+    throw new SyncError("SERVER_ERROR", `同期サーバーのエラー: ${response.status}`);
+  }
+
+  try {
+    const payload: unknown = await response.json();
+    if (isObject(payload)) {
+      return payload;
+    }
+  } catch {
+    // 下でまとめて扱う。
+  }
+  throw new SyncError("INVALID_RESPONSE", "同期サーバーの応答を読み取れませんでした。");
+}
+
+function normalizeOperationBody(value: Record<string, unknown>): SyncOperationBody | undefined {
+  switch (value.kind) {
+    case "putTodo": {
+      const todo =
+        isObject(value.todo) && typeof value.todo.id === "string" ? normalizeTodo(value.todo.id, value.todo) : undefined;
+      return todo && { kind: "putTodo", todo };
+    }
+    case "putSubTask": {
+      const subTask =
+        isObject(value.subTask) && typeof value.subTask.id === "string"
+          ? normalizeSubTask(value.subTask.id, value.subTask)
+          : undefined;
+      return subTask && { kind: "putSubTask", subTask };
+    }
+    case "putFocusSession": {
+      const session =
+        isObject(value.session) && typeof value.session.id === "string"
+          ? normalizeFocusSession(value.session.id, value.session)
+          : undefined;
+      return session && { kind: "putFocusSession", session };
+    }
+    case "delete":
+      return typeof value.entityId === "string" ? { kind: "delete", entityId: value.entityId } : undefined;
+    case "moveTodo":
+      return typeof value.todoId === "string" && (typeof value.afterId === "string" || value.afterId === null)
+        ? { kind: "moveTodo", todoId: value.todoId, afterId: value.afterId }
+        : undefined;
+    default:
+      return undefined;
+  }
+}
+
+// サーバーの記録は別のバージョンの端末が書いたものかもしれないので、保存データと同じように形をそろえる。
+// 読めない操作は適用せずに飛ばす（seq は lastSeq で進むので、同じ操作を何度も受け取り直すことはない）。
+function normalizeStoredOperation(value: unknown): StoredOperation | undefined {
+  if (
+    !isObject(value) ||
+    typeof value.seq !== "number" ||
+    typeof value.id !== "string" ||
+    typeof value.clientId !== "string" ||
+    typeof value.at !== "string" ||
+    Number.isNaN(Date.parse(value.at))
+  ) {
+    return undefined;
+  }
+  const body = normalizeOperationBody(value);
+  return body && { ...body, id: value.id, clientId: value.clientId, at: value.at, seq: value.seq };
+}
+
+// 同じIDの操作はサーバーが1回だけ記録するので、途中で切れても全件を送り直してよい。
+export async function pushOperations(config: SyncConfig, operations: SyncOperation[]): Promise<void> {
+  for (let start = 0; start < operations.length; start += PUSH_BATCH_SIZE) {
+    await requestJson(config, "/operations", {
+      method: "POST",
+      body: JSON.stringify({ operations: operations.slice(start, start + PUSH_BATCH_SIZE) }),
+    });
+  }
+}
+
+export async function pullOperations(
+  config: SyncConfig,
+  sinceSeq: number,
+): Promise<{ operations: StoredOperation[]; lastSeq: number }> {
+  const payload = await requestJson(config, `/operations?since=${sinceSeq}`, { method: "GET" });
+  if (!Array.isArray(payload.operations) || typeof payload.lastSeq !== "number") {
+    throw new SyncError("INVALID_RESPONSE", "同期サーバーの応答を読み取れませんでした。");
+  }
+  const operations = (payload.operations as unknown[])
+    .map(normalizeStoredOperation)
+    .filter((operation): operation is StoredOperation => Boolean(operation));
+  return { operations: operations.sort((a, b) => a.seq - b.seq), lastSeq: payload.lastSeq };
+}
@@ -0,0 +1,25 @@
+import type { Todo } from "./types";
+
+// 先頭の「#」と前後の空白を除き、連続する空白は1つにまとめる。
+export function normalizeTag(text: string): string {
+  return text.trim().replace(/^#+/, "").trim().replace(/\s+/g, " ");
+}
+
+export function normalizeTags(tags: string[]): string[] {
+  const result: string[] = [];
+  for (const tag of tags) {
+    const normalized = normalizeTag(tag);
+    if (normalized && !result.includes(normalized)) {
+      result.push(normalized);
+    }
+  }
+  return result;
+}
+
+export function collectTags(todos: Todo[]): string[] {
+  return normalizeTags(todos.flatMap((todo) => todo.tags)).sort((a, b) => a.localeCompare(b, "ja"));
+}
+
+export function filterTodosByTag(todos: Todo[], tag: string | null): Todo[] {
+  return tag ? todos.filter((todo) => todo.tags.includes(tag)) : todos;
+}
@@ -0,0 +1,127 @@
+import { migrateState, StorageError } from "./storage";
+import type { AppState } from "./types";
+
+export type ImportMode = "replace" | "merge";
+
+export type ExportOptions = {
+  includeApiKey: boolean;
+  // 同期サーバーのトークン。APIキーとは別に選ぶ。
+  includeSyncToken: boolean;
+};
+
+function pad2(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+export function buildExportFileName(now: Date = new Date()): string {
+  return `pirido-export-${now.getFullYear()}${pad2(now.getMonth() + 1)}${pad2(now.getDate())}.json`;
+}
+
+export function serializeStateForExport(state: AppState, options: ExportOptions): string {
+  const exported: AppState = {
+    ...state,
+    // 暗号化済みのキーは暗号文のまま書き出す（復号したキーはそもそも状態に含まれない）。
+    settings: {
+      ...state.settings,
+      openaiApiKey: options.includeApiKey ? state.settings.openaiApiKey : "",
+      encryptedApiKey: options.includeApiKey ? state.settings.encryptedApiKey : undefined,
+      syncToken: options.includeSyncToken ? state.settings.syncToken : "",
+    },
+  };
+  return JSON.stringify(exported, null, 2);
+}
+
+// 読み込みは保存データと同じ migrateState を通すので、古いスキーマのファイルもそのまま取り込める。
+export function parseImportedState(text: string): AppState {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new StorageError("INVALID_JSON", "JSONファイルとして読み込めませんでした。");
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new StorageError("INVALID_JSON", "Piridoのエクスポートファイルではありません。");
+  }
+  return migrateState(parsed);
+}
+
+export function replaceWithImportedState(current: AppState, imported: AppState): AppState {
+  // APIキーを含めずに書き出したファイルで、手元のキーを消さない。
+  const importedHasKey = Boolean(imported.settings.openaiApiKey || imported.settings.encryptedApiKey);
+  const keySource = importedHasKey ? imported.settings : current.settings;
+  return {
+    ...imported,
+    settings: {
+      ...imported.settings,
+      openaiApiKey: keySource.openaiApiKey,
+      encryptedApiKey: keySource.encryptedApiKey,
+      syncToken: imported.settings.syncToken || current.settings.syncToken,
+    },
+  };
+}
+
+// 同じIDのTODO・子タスク・集中の記録は手元のものを優先し、足りないものだけを取り込む。
+export function mergeImportedState(current: AppState, imported: AppState): AppState {
+  const nextTodos = { ...current.todos };
+  const nextSubTasks = { ...current.subTasks };
+
+  for (const [id, subTask] of Object.entries(imported.subTasks)) {
+    if (!nextSubTasks[id]) {
+      nextSubTasks[id] = subTask;
+    }
+  }
+
+  for (const [id, subTask] of Object.entries(imported.subTasks)) {
+    const existing = current.subTasks[id];
+    if (!existing) {
+      continue;
+    }
+    const appendedChildIds = subTask.subTaskIds.filter(
+      (childId) => !existing.subTaskIds.includes(childId) && nextSubTasks[childId]?.parentSubTaskId === id,
+    );
+    if (appendedChildIds.length > 0) {
+      nextSubTasks[id] = {
+        ...existing,
+        subTaskIds: [...existing.subTaskIds, ...appendedChildIds],
+      };
+    }
+  }
+
+  for (const [id, todo] of Object.entries(imported.todos)) {
+    const existing = nextTodos[id];
+    if (!existing) {
+      nextTodos[id] = todo;
+      continue;
+    }
+    const appendedSubTaskIds = todo.subTaskIds.filter(
+      (subTaskId) =>
+        !existing.subTaskIds.includes(subTaskId) &&
+        nextSubTasks[subTaskId]?.parentId === id &&
+        !nextSubTasks[subTaskId]?.parentSubTaskId,
+    );
+    if (appendedSubTaskIds.length > 0) {
+      nextTodos[id] = {
+        ...existing,
+        subTaskIds: [...existing.subTaskIds, ...appendedSubTaskIds],
+      };
+    }
+  }
+
+  const nextFocusSessions = { ...imported.focusSessions, ...current.focusSessions };
+
+  const currentOrder = new Set(current.todoOrder);
+  const appendedOrder = imported.todoOrder.filter((id) => !currentOrder.has(id) && Boolean(nextTodos[id]));
+  const collapsed = new Set(current.collapsedTodoIds);
+
+  return {
+    ...current,
+    todos: nextTodos,
+    subTasks: nextSubTasks,
+    todoOrder: [...current.todoOrder, ...appendedOrder],
+    focusSessions: nextFocusSessions,
+    collapsedTodoIds: [
+      ...current.collapsedTodoIds,
+      ...imported.collapsedTodoIds.filter((id) => !collapsed.has(id) && appendedOrder.includes(id)),
+    ],
+  };
+}
@@ -1,26 +1,114 @@
 export type Priority = 0 | 1 | 2 | 3 | 4 | 5;
 
+export type SubTaskSource = "ai" | "manual";
+
 export type SubTask = {
   id: string;
+  // 所属する親TODOのID。入れ子になっていても常にルートのTODOを指す。
   parentId: string;
+  // 入れ子の場合の直接の親子タスク。TODO直下なら undefined。
+  parentSubTaskId?: string;
   text: string;
   completed: boolean;
+  completedAt?: string;
   createdAt: string;
-  source: "ai";
+  updatedAt: string;
+  source: SubTaskSource;
+  // 見積もった作業時間（分）。未見積もりなら undefined。
+  estimatedMinutes?: number;
+  subTaskIds: string[];
+};
+
+// 子タスクを追加するときの1件分。
+export type NewSubTaskDraft = Pick<SubTask, "text" | "estimatedMinutes">;
+
+// 新しいTODOを作るときに本文と一緒に指定できる項目。
+export type NewTodoFields = Partial<Pick<Todo, "priority" | "dueAt" | "tags">>;
+
+// まとめて追加するときの1件分。subTaskTexts はTODO直下の子タスクになる。
+export type NewTodoDraft = NewTodoFields & {
+  text: string;
+  subTaskTexts: string[];
 };
 
+// weekdays は 0=日曜 〜 6=土曜。monthly の dayOfMonth がその月に無ければ月末にする。
+export type RecurrenceRule =
+  | { kind: "daily" }
+  | { kind: "weekly"; weekdays: number[] }
+  | { kind: "monthly"; dayOfMonth: number }
+  | { kind: "interval"; days: number };
+
 export type Todo = {
   id: string;
   text: string;
   priority: Priority;
   completed: boolean;
+  completedAt?: string;
+  // アーカイブした日時。アーカイブ中のTODOは todoOrder に含めない。
+  archivedAt?: string;
   createdAt: string;
+  updatedAt: string;
+  dueAt?: string;
+  // 「仕事」「家」などの分類。先頭の # を除いた表記で重複なく持つ。
+  tags: string[];
+  // 完了すると次回分のTODOを作る。完了した側からは外す。
+  recurrence?: RecurrenceRule;
+  // true ならAIの並び替えで位置も優先度も変えない。手動の並び替えはできる。
+  locked?: boolean;
   subTaskIds: string[];
 };
 
+// 集中タイマー1回分の記録。endedAt が無いものが計測中で、同時に1つまで。
+export type FocusSession = {
+  id: string;
+  // 集中した対象（TODOか子タスク）のID。
+  targetId: string;
+  // 対象が属するTODOのID。TODOそのものなら targetId と同じ。
+  todoId: string;
+  // 開始したときの本文。対象を削除したあとも書き出しで使う。
+  targetText: string;
+  startedAt: string;
+  // 予定した長さ（分）。この時間が経つと自動で終わる。
+  plannedMinutes: number;
+  endedAt?: string;
+  updatedAt: string;
+};
+
+export type AiProviderKind = "openai-responses" | "openai-chat" | "anthropic";
+
+// パスフレーズで暗号化したAPIキー。値はすべてBase64。
+export type EncryptedSecret = {
+  ciphertext: string;
+  iv: string;
+  salt: string;
+  iterations: number;
+};
+
 export type AppSettings = {
+  // 暗号化している場合は常に空文字で、復号したキーは保存しない。
   openaiApiKey: string;
+  encryptedApiKey?: EncryptedSecret;
   model: string;
+  providerKind: AiProviderKind;
+  // 空文字ならプロバイダー既定のURLを使う。
+  baseUrl: string;
+  requestTimeoutSeconds: number;
+  // 完了してからこの日数が経ったTODOを自動でアーカイブする。0 なら自動では行わない。
+  archiveAfterDays: number;
+  // 自前の同期サーバーのURL。空文字なら同期しない。
+  syncServerUrl: string;
+  // 同期サーバーに設定した共有トークン。不要なら空文字。
+  syncToken: string;
+  // 今日の計画で使える作業時間（分）。
+  plannerAvailableMinutes: number;
+};
+
+// 他タブとのマージ用の更新日時。TODO・子タスクは各エンティティの updatedAt を使う。
+export type SyncMeta = {
+  todoOrderUpdatedAt: string;
+  settingsUpdatedAt: string;
+  // 削除したTODO・子タスクのIDと削除日時。マージで削除済みのものを復活させないために残す。
+  deletedAt: Record<string, string>;
 };
 
 export type AppState = {
@@ -28,12 +116,23 @@ export type AppState = {
   subTasks: Record<string, SubTask>;
   todoOrder: string[];
   collapsedTodoIds: string[];
+  focusSessions: Record<string, FocusSession>;
   settings: AppSettings;
-  schemaVersion: 1;
+  syncMeta: SyncMeta;
+  schemaVersion: typeof APP_SCHEMA_VERSION;
 };
 
-export const APP_SCHEMA_VERSION = 1;
+export const APP_SCHEMA_VERSION = 6 as const;
 export const DEFAULT_MODEL = "gpt-4.1-mini";
+export const DEFAULT_REQUEST_TIMEOUT_SECONDS = 60;
+export const MIN_REQUEST_TIMEOUT_SECONDS = 5;
+export const MAX_REQUEST_TIMEOUT_SECONDS = 600;
+// 既存の完了済みの完了日時は移行時に推定したものなので、初回起動でまとめてアーカイブしないよう既定では自動アーカイブしない。
+export const DEFAULT_ARCHIVE_AFTER_DAYS = 0;
+export const MAX_ARCHIVE_AFTER_DAYS = 365;
+export const DEFAULT_PLANNER_AVAILABLE_MINUTES = 6 * 60;
+export const MAX_PLANNER_AVAILABLE_MINUTES = 24 * 60;
+export const AI_PROVIDER_KINDS: AiProviderKind[] = ["openai-responses", "openai-chat", "anthropic"];
 
 export function clampPriority(value: unknown): Priority {
   const parsed = Number(value);
@@ -51,3 +150,27 @@ export function clampPriority(value: unknown): Priority {
   }
   return parsed as Priority;
 }
+
+export function clampRequestTimeoutSeconds(value: unknown): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    return DEFAULT_REQUEST_TIMEOUT_SECONDS;
+  }
+  return Math.min(MAX_REQUEST_TIMEOUT_SECONDS, Math.max(MIN_REQUEST_TIMEOUT_SECONDS, Math.round(parsed)));
+}
+
+export function clampArchiveAfterDays(value: unknown): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    return DEFAULT_ARCHIVE_AFTER_DAYS;
+  }
+  return Math.min(MAX_ARCHIVE_AFTER_DAYS, Math.max(0, Math.round(parsed)));
+}
+
+export function clampPlannerAvailableMinutes(value: unknown): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    return DEFAULT_PLANNER_AVAILABLE_MINUTES;
+  }
+  return Math.min(MAX_PLANNER_AVAILABLE_MINUTES, Math.max(0, Math.round(parsed)));
+}
@@ -1,7 +1,36 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// public/ からそのままコピーされ、オフラインでも必要になるファイル。
+const PUBLIC_SHELL_FILES = ['/manifest.webmanifest', '/icon.svg', '/icon-192.png', '/icon-512.png']
+
+// ビルドした資産の一覧を埋め込んだ Service Worker を dist/sw.js に書き出す。
+// 資産のファイル名にはハッシュが付くので、中身が変わればキャッシュ名も変わり、ブラウザが更新に気づく。
+function serviceWorker(): Plugin {
+  return {
+    name: 'pirido-service-worker',
+    apply: 'build',
+    generateBundle(_, bundle) {
+      const assetUrls = Object.keys(bundle)
+        .filter((fileName) => fileName !== 'index.html' && !fileName.endsWith('.map'))
+        .map((fileName) => `/${fileName}`)
+      const precacheUrls = ['/', ...assetUrls, ...PUBLIC_SHELL_FILES].sort()
+      const template = readFileSync(new URL('./pwa/serviceWorker.js', import.meta.url), 'utf8')
+      const version = createHash('sha256').update(template).update(precacheUrls.join('\n')).digest('hex').slice(0, 12)
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: template
+          .replace('__PRECACHE_URLS__', JSON.stringify(precacheUrls))
+          .replace('__CACHE_VERSION__', version),
+      })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
 })